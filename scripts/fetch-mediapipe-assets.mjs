@@ -0,0 +1,52 @@
+// Puts the hand landmarker model and the MediaPipe WASM runtime into public/,
+// so they ship with the build and the app never reaches for a CDN at runtime.
+// Runs before `dev` and `build`; files that are already there are left alone.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+// Pinned model revision; bump deliberately and re-run with --force
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const MODEL_FILE = join(root, 'public/models/hand_landmarker.task');
+
+// The WASM must match the installed @mediapipe/tasks-vision (pinned in package.json)
+const WASM_SOURCE = join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const WASM_TARGET = join(root, 'public/mediapipe/wasm');
+
+const force = process.argv.includes('--force');
+
+const exists = async (path) => {
+  try {
+    return (await stat(path)).size > 0;
+  } catch {
+    return false;
+  }
+};
+
+const fetchModel = async () => {
+  if (!force && await exists(MODEL_FILE)) return;
+  console.log(`Downloading ${MODEL_URL}`);
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`Model download failed: ${response.status} ${response.statusText}`);
+  await mkdir(dirname(MODEL_FILE), { recursive: true });
+  await writeFile(MODEL_FILE, Buffer.from(await response.arrayBuffer()));
+};
+
+const copyWasm = async () => {
+  await mkdir(WASM_TARGET, { recursive: true });
+  for (const file of await readdir(WASM_SOURCE)) {
+    const target = join(WASM_TARGET, file);
+    if (!force && await exists(target)) continue;
+    await copyFile(join(WASM_SOURCE, file), target);
+  }
+};
+
+try {
+  await copyWasm();
+  await fetchModel();
+} catch (err) {
+  console.error('Failed to prepare MediaPipe assets:', err);
+  process.exit(1);
+}
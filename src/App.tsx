@@ -1,88 +1,397 @@
-import { Camera, Sparkles, Upload } from 'lucide-react';
+import { Camera, Footprints, Hand, History, Sparkles, Upload, Users } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
+import { CalibrationComparison } from './components/CalibrationComparison';
 import { CameraCapture } from './components/CameraCapture';
+import { CaptureQualityGate } from './components/CaptureQualityGate';
+import { ClientPicker } from './components/ClientPicker';
+import { ClientsView } from './components/ClientsView';
+import { DetectionDiagnostics } from './components/DetectionDiagnostics';
+import { ExportMenu } from './components/ExportMenu';
+import { HistoryView } from './components/HistoryView';
 import { ImageUploader } from './components/ImageUploader';
-import { NailOverlay } from './components/NailOverlay';
-import type { NailMeasurement } from './hooks/useHandDetection';
+import { ReferenceObjectPicker } from './components/ReferenceObjectPicker';
+import { NailOverlay, type NailOverlayHandle } from './components/NailOverlay';
+import { PhotoStrip } from './components/PhotoStrip';
+import { QualityWarnings } from './components/QualityWarnings';
+import { useDelegatePreference } from './hooks/useDelegatePreference';
+import { useEditHistory } from './hooks/useEditHistory';
+import type { HandSide, NailMeasurement } from './hooks/useHandDetection';
 import { useHandDetection } from './hooks/useHandDetection';
 
 import { MeasurementSidebar } from './components/MeasurementSidebar';
+import { SizeChartSelector } from './components/SizeChartSelector';
+import { useReferenceObject } from './hooks/useReferenceObject';
+import { useSizeCharts } from './hooks/useSizeCharts';
+import { describeScaleEstimate, estimateScaleFromHands } from './lib/anthropometry';
+import { getActiveScaleEstimate, getCalibrationSourceId, getCalibrationSources, type CalibrationSourceId } from './lib/calibrationSources';
+import { assessCaptureQuality, hasBlockingIssue, type QualityIssue } from './lib/captureQuality';
+import { fuseSessionPhotos } from './lib/fusion';
+import type { Point } from './lib/geometry';
+import { readFocalLength35mm } from './lib/exif';
+import { getDefaultAnalysisName, getSessionPhotos, saveAnalysis, type AnalysisRecord, type MeasuredCalibration, type SessionPhoto } from './lib/historyStore';
+import { calibrateFromCard } from './lib/homography';
+import { isAbortError } from './lib/landmarkerWorker';
+import { findSameNail, getNailLabel, groupByHand, HAND_ORDER, relabelNail, swapHandSide, type NailSet } from './lib/nails';
+import { describeReferenceObject } from './lib/referenceObjects';
+import { createToeTemplate } from './lib/toeTemplate';
+import { estimateScaleFromWorldLandmarks } from './lib/worldScale';
 
-type AppMode = 'home' | 'camera' | 'upload' | 'result';
+type AppMode = 'home' | 'camera' | 'upload' | 'result' | 'history' | 'clients';
+type CaptureSource = 'camera' | 'upload';
+
+// Identity of the saved analysis currently on screen
+type SavedAnalysisMeta = Pick<AnalysisRecord, 'id' | 'name' | 'createdAt' | 'clientId'>;
+
+const NAIL_SET_OPTIONS: { id: NailSet; label: string; icon: typeof Hand }[] = [
+  { id: 'hands', label: 'Hands', icon: Hand },
+  { id: 'feet', label: 'Feet', icon: Footprints }
+];
+
+// Stable fallbacks while no photo is open (keeps effect dependencies from changing every render)
+const NO_MEASUREMENTS: NailMeasurement[] = [];
+const NO_IMAGE_SIZE = { width: 0, height: 0 };
 
 function App() {
   const [mode, setMode] = useState<AppMode>('home');
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [imageSize, setImageSize] = useState({ width: 0, height: 0 }); 
   const containerRef = useRef<HTMLDivElement>(null); 
+  const overlayRef = useRef<NailOverlayHandle>(null);
   
-  const { detect, isLoading: isModelLoading, error: modelError } = useHandDetection();
-  const [measurements, setMeasurements] = useState<NailMeasurement[]>([]);
+  const { delegate, setDelegate } = useDelegatePreference();
+  const {
+    detect,
+    cancel: cancelDetection,
+    isLoading: isModelLoading,
+    error: modelError,
+    diagnostics: detectionDiagnostics
+  } = useHandDetection(delegate);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  // Fingernails (detected) or toenails (template); chosen on the home screen, kept per session
+  const [nailSet, setNailSet] = useState<NailSet>('hands');
+  // Which foot the toe template is laid out for (the toes run the other way on a right foot)
+  const [footSide, setFootSide] = useState<HandSide>('Left');
+  const sizeCharts = useSizeCharts(nailSet);
+
+  // A session holds one or more photos of the same hands, each with its own
+  // detection and calibration. Everything below edits the photo on screen.
+  const [photos, setPhotos] = useState<SessionPhoto[]>([]);
+  const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  // Set while the camera/uploader is capturing a further photo for the open session
+  const [isAddingPhoto, setIsAddingPhoto] = useState(false);
+  // Where the last photo came from, so "retake" can go back there
+  const [captureSource, setCaptureSource] = useState<CaptureSource>('camera');
+  // A photo that failed the quality gate (shown instead of the result)
+  const [rejectedCapture, setRejectedCapture] = useState<{ imageSrc: string; issues: QualityIssue[]; addToSession: boolean } | null>(null);
+  const activePhoto = photos.find(p => p.id === activePhotoId) ?? null;
+  const imageSrc = activePhoto?.imageSrc ?? null;
+  const imageSize = activePhoto?.imageSize ?? NO_IMAGE_SIZE;
+  const measurements = activePhoto?.measurements ?? NO_MEASUREMENTS;
   
   // Auto-Estimation State (FOV Based)
-  const [pixelsPerMM, setPixelsPerMM] = useState<number | undefined>(undefined);
-  const [showCoinTool, setShowCoinTool] = useState(false);
+  const pixelsPerMM = activePhoto?.pixelsPerMM;
+  const calibrationMethod = activePhoto?.calibrationMethod ?? null;
+  const calibrationDetail = activePhoto?.calibrationDetail;
+  // Set only by four-corner card calibration; measurements are then rectified onto the card plane
+  const homography = activePhoto?.homography;
+  const [perspectiveMode, setPerspectiveMode] = useState(false);
+  // The last corners dragged in perspective mode didn't outline a usable card
+  const [cardCornersRejected, setCardCornersRejected] = useState(false);
+  const references = useReferenceObject();
+  const [showCalibrationTool, setShowCalibrationTool] = useState(false);
+  const [savedAnalysis, setSavedAnalysis] = useState<SavedAnalysisMeta | null>(null);
+  // Only fuse once there is something to fuse
+  const fusion = photos.length > 1 ? fuseSessionPhotos(photos) : undefined;
+
+  const updateActivePhoto = (changes: Partial<SessionPhoto>) => {
+    setPhotos(prev => prev.map(p => (p.id === activePhotoId ? { ...p, ...changes } : p)));
+  };
+
+  // Implicit Calibration (Anthropometric)
+  // Every phalanx length, and each nail width measured on its own, against population priors gives
+  // a scale with a 95% range, so measurements are always in a "sane" range.
+  // Fitted when a photo is added and again only on "Re-estimate": its cues are the very
+  // nail widths being edited, so refitting on each edit would drag the scale along with
+  // a corrected box and partly cancel the correction. It only becomes the active scale
+  // while nothing else (coin/card, world landmarks) was chosen.
+  const withScaleEstimate = (photo: SessionPhoto): SessionPhoto => {
+    const estimate = estimateScaleFromHands(photo.measurements, photo.detectedMeasurements);
+    if (!estimate) {
+      // No usable finger left: drop the old estimate, and the scale too if it came from it
+      if (!photo.scaleEstimate) return photo;
+      const cleared = { ...photo, scaleEstimate: undefined };
+      return photo.calibrationMethod === 'anthropometric'
+        ? { ...cleared, pixelsPerMM: undefined, calibrationMethod: null, calibrationDetail: undefined }
+        : cleared;
+    }
+
+    const updated = { ...photo, scaleEstimate: estimate };
+    const activeSource = getCalibrationSourceId(photo.calibrationMethod);
+    if (activeSource !== null && activeSource !== 'anthropometric') return updated;
+
+    return {
+      ...updated,
+      pixelsPerMM: estimate.pixelsPerMM,
+      homography: undefined,
+      calibrationMethod: 'anthropometric',
+      calibrationDetail: describeScaleEstimate(estimate)
+    };
+  };
+
+  // Every change to the nails on screen goes through here; the scale stays as it was
+  const updateActiveMeasurements = (next: NailMeasurement[]) => {
+    updateActivePhoto({ measurements: next });
+  };
+
+  // Refits the finger-proportion scale to the boxes as they are now
+  const reestimateScale = () => {
+    setPhotos(prev => prev.map(p => (p.id === activePhotoId ? withScaleEstimate(p) : p)));
+  };
+
+  // Box edits of each photo can be undone/redone
+  const editHistory = useEditHistory(activePhotoId);
+
+  const undoEdit = () => {
+    const restored = editHistory.undo();
+    if (restored) updateActiveMeasurements(restored);
+  };
+
+  const redoEdit = () => {
+    const restored = editHistory.redo();
+    if (restored) updateActiveMeasurements(restored);
+  };
+
+  // Puts one nail's box back where the detector placed it (undoable like any other edit).
+  // Its label stays, so a nail relabeled since keeps its new finger.
+  const revertNail = (index: number) => {
+    const detectedNail = activePhoto?.detectedMeasurements && findSameNail(activePhoto.detectedMeasurements, measurements[index]);
+    if (!detectedNail) return;
+    const reverted = measurements.map((m, i) => (
+      i === index ? { ...m, boundingBox: detectedNail.boundingBox, outline: detectedNail.outline } : m
+    ));
+    editHistory.record({ label: `Revert ${getNailLabel(measurements[index])}`, before: measurements, after: reverted });
+    updateActiveMeasurements(reverted);
+  };
+
+  // Removes a box the detector got wrong, e.g. on a phantom hand
+  const deleteNail = (index: number) => {
+    const nail = measurements[index];
+    if (!nail) return;
+    const remaining = measurements.filter((_, i) => i !== index);
+    editHistory.record({ label: `Delete ${getNailLabel(nail)}`, before: measurements, after: remaining });
+    updateActiveMeasurements(remaining);
+    // Indices after the deleted nail have shifted
+    setHighlightedIndex(null);
+  };
+
+  const changeNailLabel = (index: number, hand: HandSide, finger: string) => {
+    const nail = measurements[index];
+    if (!nail || (nail.hand === hand && nail.finger === finger)) return;
+    const relabeled = relabelNail(measurements, index, hand, finger);
+    editHistory.record({ label: `Relabel ${getNailLabel(nail)}`, before: measurements, after: relabeled });
+    updateActiveMeasurements(relabeled);
+  };
+
+  const swapSide = (handIndex: number) => {
+    const group = groupByHand(measurements).find(g => g.handIndex === handIndex);
+    if (!group) return;
+    const swapped = swapHandSide(measurements, handIndex);
+    editHistory.record({ label: `Swap side of ${group.label}`, before: measurements, after: swapped });
+    updateActiveMeasurements(swapped);
+  };
 
   const handleCapture = (src: string) => {
-    setImageSrc(src);
     setMode('result');
-    analyzeImage(src);
+    analyzeImage(src, isAddingPhoto);
+    setIsAddingPhoto(false);
   };
 
-  // v4: Implicit Calibration (Anthropometric)
-  // Assume Thumb Width is ~15mm to determine scale.
-  // This ensures measurements are always in a "sane" range.
-  useEffect(() => {
-    // Only run implicit calibration if NO coin calibration is active/set
-    if (showCoinTool) return;
-    
-    // Prevent overwriting manual calibration (if user just closed the tool)
-    if (pixelsPerMM !== undefined) return;
+  const startCapture = (source: CaptureSource, addToSession: boolean) => {
+    setCaptureSource(source);
+    setIsAddingPhoto(addToSession);
+    setMode(source);
+  };
 
-    if (measurements.length === 0 || imageSize.width === 0) return;
+  const startAddingPhoto = (source: CaptureSource) => startCapture(source, true);
 
-    // Find Thumb
-    const thumb = measurements.find(m => m.finger === 'Thumb');
-    
-    if (thumb) {
-      const thumbWidthPx = thumb.width * imageSize.width;
-      
-      // Implicit Constant: Thumb is 15.0mm
-      const ASSUMED_THUMB_WIDTH_MM = 15.0;
-      
-      const ratio = thumbWidthPx / ASSUMED_THUMB_WIDTH_MM;
-      setPixelsPerMM(ratio);
+  // Back to the camera/uploader after the quality gate rejected a photo
+  const retakeRejected = () => {
+    if (!rejectedCapture) return;
+    const addToSession = rejectedCapture.addToSession;
+    setRejectedCapture(null);
+    startCapture(captureSource, addToSession);
+  };
+
+  const cancelRejected = () => {
+    const addToSession = rejectedCapture?.addToSession ?? false;
+    setRejectedCapture(null);
+    if (!addToSession) setMode('home');
+  };
+
+  // Drops the photo on screen and captures a replacement
+  const retakeActivePhoto = () => {
+    if (!activePhotoId) return;
+    const remaining = photos.filter(p => p.id !== activePhotoId);
+    setPhotos(remaining);
+    setActivePhotoId(remaining[0]?.id ?? null);
+    setHighlightedIndex(null);
+    if (remaining.length === 0) setSavedAnalysis(null);
+    startCapture(captureSource, remaining.length > 0);
+  };
+
+  // Leaving the camera/uploader returns to the session it was adding to
+  const cancelCapture = () => {
+    setMode(isAddingPhoto ? 'result' : 'home');
+    setIsAddingPhoto(false);
+  };
+
+  const removePhoto = (id: string) => {
+    if (photos.length <= 1) return;
+    const remaining = photos.filter(p => p.id !== id);
+    setPhotos(remaining);
+    if (id === activePhotoId) {
+      setActivePhotoId(remaining[0].id);
+      setHighlightedIndex(null);
     }
-  }, [measurements, imageSize.width, showCoinTool]);
+  };
+
+  const selectPhoto = (id: string) => {
+    setActivePhotoId(id);
+    setHighlightedIndex(null);
+  };
+
+  // Coin/card calibration; also kept aside so it stays selectable in the calibration panel
+  const applyReferenceCalibration = (calibration: MeasuredCalibration) => {
+    updateActivePhoto({ ...calibration, referenceCalibration: calibration });
+  };
 
-  const analyzeImage = async (src: string) => {
+  const selectCalibrationSource = (id: CalibrationSourceId) => {
+    if (!activePhoto) return;
+    const source = getCalibrationSources(activePhoto).find(s => s.id === id);
+    if (source?.changes) updateActivePhoto(source.changes);
+  };
+
+  // Persist the open analysis (and every later edit) to local history.
+  // Debounced so dragging a box doesn't write on every frame.
+  useEffect(() => {
+    if (!savedAnalysis || photos.length === 0 || isAnalyzing) return;
+
+    const timer = setTimeout(() => {
+      // The first photo is stored in the record itself, the rest alongside it
+      const [first, ...extraPhotos] = photos;
+      saveAnalysis({
+        ...first,
+        ...savedAnalysis,
+        updatedAt: Date.now(),
+        extraPhotos
+      }).catch(err => console.error("Failed to save analysis:", err));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [savedAnalysis, photos, isAnalyzing]);
+
+  // Detects nails on a new photo: either starting a new session or adding to the open one
+  const analyzeImage = async (src: string, addToSession = false) => {
     setIsAnalyzing(true);
-    setPixelsPerMM(undefined);
-    setShowCoinTool(false); // Reset coin tool on new image
+    setShowCalibrationTool(false); // Reset calibration tool on new image
+    setHighlightedIndex(null);
+    setRejectedCapture(null);
+    if (!addToSession) {
+      setPhotos([]);
+      setActivePhotoId(null);
+      setSavedAnalysis(null);
+      editHistory.clear();
+    }
     
     const img = new Image();
     img.src = src;
     img.onload = async () => {
-      setImageSize({ width: img.width, height: img.height });
-      try {
-        const result = await detect(img);
-        setMeasurements(result.measurements);
-      } catch (err) {
-        console.error("Detection failed:", err);
-      } finally {
-        setIsAnalyzing(false);
+      const photo: SessionPhoto = {
+        id: crypto.randomUUID(),
+        imageSrc: src,
+        imageSize: { width: img.width, height: img.height },
+        measurements: [],
+        calibrationMethod: null,
+        boxSpace: 'image-pixels'
+      };
+      let detected = false;
+      if (nailSet === 'feet') {
+        // The hand model can't see feet: start from a toe template the user positions.
+        // It stands in for the detected boxes, so moved toes count as fitted and can be reset.
+        photo.nailSet = 'feet';
+        photo.measurements = createToeTemplate(photo.imageSize, footSide);
+        photo.detectedMeasurements = photo.measurements;
+        detected = true;
+      } else {
+        try {
+          const result = await detect(img);
+          photo.measurements = result.measurements;
+          photo.detectedMeasurements = result.measurements;
+          detected = true;
+          // Quality gate: score sharpness, exposure and framing before trusting the sizes
+          photo.qualityIssues = assessCaptureQuality(img, result.landmarks);
+          // Metric scale from MediaPipe's world landmarks, sharpened by the lens focal length when EXIF has it
+          photo.worldScale = estimateScaleFromWorldLandmarks(
+            result.landmarks, result.worldLandmarks, photo.imageSize, readFocalLength35mm(src)
+          ) ?? undefined;
+        } catch (err) {
+          // A newer photo took over; its own analysis finishes the spinner
+          if (isAbortError(err)) return;
+          console.error("Detection failed:", err);
+        }
+      }
+
+      setIsAnalyzing(false);
+      if (hasBlockingIssue(photo.qualityIssues)) {
+        setRejectedCapture({ imageSrc: src, issues: photo.qualityIssues!, addToSession });
+        return;
       }
+      if (detected) {
+        setSavedAnalysis(prev => prev ?? { id: crypto.randomUUID(), name: getDefaultAnalysisName(), createdAt: Date.now() });
+      }
+      setPhotos(prev => [...prev, withScaleEstimate(photo)]);
+      setActivePhotoId(photo.id);
     };
   };
 
   const reset = () => {
-    setImageSrc(null);
-    setMeasurements([]);
+    cancelDetection();
+    setIsAnalyzing(false);
+    setRejectedCapture(null);
+    setPhotos([]);
+    setActivePhotoId(null);
+    editHistory.clear();
     setMode('home');
-    setPixelsPerMM(undefined);
-    setShowCoinTool(false);
+    setShowCalibrationTool(false);
+    setSavedAnalysis(null);
+  };
+
+  // Four-corner card calibration: corners arrive in natural image pixels
+  const handleCardCornersChange = (corners: Point[]) => {
+    if (references.referenceObject.shape !== 'rect') return;
+    // Ordered TL, TR, BR, BL first, so a corner dragged past another doesn't cross the quad
+    const calibration = calibrateFromCard(corners, references.referenceObject);
+    setCardCornersRejected(!calibration);
+    if (!calibration) return; // Dented or tiny quad: keep the last good calibration
+
+    applyReferenceCalibration({
+      homography: calibration.homography,
+      pixelsPerMM: calibration.pixelsPerMM,
+      calibrationMethod: 'card-perspective',
+      calibrationDetail: describeReferenceObject(references.referenceObject)
+    });
+  };
+
+  // Restore a saved analysis exactly as it was left (no re-detection)
+  const openAnalysis = (record: AnalysisRecord) => {
+    setRejectedCapture(null);
+    setPhotos(getSessionPhotos(record));
+    editHistory.clear();
+    setActivePhotoId(record.id);
+    setShowCalibrationTool(false);
+    setHighlightedIndex(null);
+    setSavedAnalysis({ id: record.id, name: record.name, createdAt: record.createdAt, clientId: record.clientId });
+    setNailSet(record.nailSet ?? 'hands');
+    setMode('result');
   };
 
   return (
@@ -99,23 +408,71 @@ function App() {
           </h1>
         </div>
         
-        {/* Controls (Visible in Result Mode) */}
-        {mode === 'result' && !isAnalyzing && (
-           <div className="flex items-center gap-2">
-               <button 
-                  onClick={reset}
-                  className="px-3 py-1.5 rounded-lg text-sm font-medium bg-neutral-800 text-neutral-300 border border-neutral-700 hover:bg-neutral-700 transition-all hover:text-white"
-               >
-                  Analyze New
-               </button>
-               <button
-                  onClick={() => setShowCoinTool(!showCoinTool)}
-                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border ${showCoinTool ? 'bg-yellow-500 border-yellow-500 text-black' : 'bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white'}`}
-               >
-                  {showCoinTool ? 'Done' : '🪙 Coin Calibrate'}
-               </button>
-           </div>
-        )}
+        <div className="flex items-center gap-2">
+          {/* Controls (Visible in Result Mode) */}
+          {mode === 'result' && !isAnalyzing && !rejectedCapture && (
+             <div className="flex items-center gap-2">
+                 {savedAnalysis && (
+                    <ClientPicker
+                       clientId={savedAnalysis.clientId}
+                       onChange={(clientId) => setSavedAnalysis({ ...savedAnalysis, clientId })}
+                    />
+                 )}
+                 <ExportMenu
+                    context={{
+                      imageSrc: imageSrc ?? '',
+                      imageSize,
+                      measurements,
+                      pixelsPerMM,
+                      homography,
+                      calibrationMethod,
+                      calibrationDetail,
+                      scaleEstimate: getActiveScaleEstimate(activePhoto),
+                      detectedMeasurements: activePhoto?.detectedMeasurements,
+                      sizeChart: sizeCharts.selectedChart,
+                      fusion,
+                      nailSet: activePhoto?.nailSet
+                    }}
+                 />
+                 <button 
+                    onClick={reset}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium bg-neutral-800 text-neutral-300 border border-neutral-700 hover:bg-neutral-700 transition-all hover:text-white"
+                 >
+                    Analyze New
+                 </button>
+                 {showCalibrationTool && (
+                    <ReferenceObjectPicker
+                       referenceObject={references.referenceObject}
+                       customObject={references.customObject}
+                       onSelect={references.selectReference}
+                       onCustomChange={references.updateCustomObject}
+                    />
+                 )}
+                 {showCalibrationTool && references.referenceObject.shape === 'rect' && (
+                    <button
+                       onClick={() => setPerspectiveMode(!perspectiveMode)}
+                       title="Place four corners on the card to correct for camera tilt"
+                       className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border ${perspectiveMode ? 'bg-yellow-500/20 border-yellow-500 text-yellow-300' : 'bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white'}`}
+                    >
+                       4-corner
+                    </button>
+                 )}
+                 <button
+                    onClick={() => setShowCalibrationTool(!showCalibrationTool)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border ${showCalibrationTool ? 'bg-yellow-500 border-yellow-500 text-black' : 'bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white'}`}
+                 >
+                    {showCalibrationTool ? 'Done' : '📏 Calibrate'}
+                 </button>
+             </div>
+          )}
+          <DetectionDiagnostics
+             delegate={delegate}
+             onDelegateChange={setDelegate}
+             diagnostics={detectionDiagnostics}
+             isLoading={isModelLoading}
+             error={modelError}
+          />
+        </div>
       </header>
 
       {/* Main Content Area - constrained to remaining height */}
@@ -130,12 +487,40 @@ function App() {
 
         {/* Home Mode */}
         {mode === 'home' && (
-          <div className="w-full h-full flex items-center justify-center p-4 overflow-y-auto">
+          <div className="w-full h-full flex flex-col items-center justify-center gap-6 p-4 overflow-y-auto">
+             {/* Hands are detected; feet start from a toe template */}
+             <div className="flex p-1 bg-neutral-900 border border-neutral-800 rounded-xl shrink-0">
+               {NAIL_SET_OPTIONS.map(({ id, label, icon: Icon }) => (
+                 <button
+                   key={id}
+                   onClick={() => setNailSet(id)}
+                   aria-pressed={nailSet === id}
+                   className={`px-4 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors ${nailSet === id ? 'bg-neutral-700 text-white' : 'text-neutral-400 hover:text-white'}`}
+                 >
+                   <Icon className="w-4 h-4" />
+                   {label}
+                 </button>
+               ))}
+             </div>
+             {nailSet === 'feet' && (
+               <div className="flex p-1 bg-neutral-900 border border-neutral-800 rounded-xl shrink-0 -mt-3">
+                 {HAND_ORDER.map(side => (
+                   <button
+                     key={side}
+                     onClick={() => setFootSide(side)}
+                     aria-pressed={footSide === side}
+                     className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${footSide === side ? 'bg-neutral-700 text-white' : 'text-neutral-400 hover:text-white'}`}
+                   >
+                     {side} foot
+                   </button>
+                 ))}
+               </div>
+             )}
              <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8 max-w-3xl mx-auto">
                {/* Camera Card */}
                <button 
-                 onClick={() => setMode('camera')}
-                 disabled={isModelLoading}
+                 onClick={() => startCapture('camera', false)}
+                 disabled={isModelLoading && nailSet === 'hands'}
                  className="group relative bg-neutral-900/50 hover:bg-neutral-900 border border-neutral-800 hover:border-blue-500/50 rounded-3xl p-8 flex flex-col items-center text-center transition-all duration-300 hover:shadow-2xl hover:shadow-blue-500/10 overflow-hidden"
                >
                  <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -150,8 +535,8 @@ function App() {
 
                {/* Upload Card */}
                <button 
-                 onClick={() => setMode('upload')}
-                 disabled={isModelLoading}
+                 onClick={() => startCapture('upload', false)}
+                 disabled={isModelLoading && nailSet === 'hands'}
                  className="group relative bg-neutral-900/50 hover:bg-neutral-900 border border-neutral-800 hover:border-purple-500/50 rounded-3xl p-8 flex flex-col items-center text-center transition-all duration-300 hover:shadow-2xl hover:shadow-purple-500/10 overflow-hidden"
                >
                  <div className="absolute inset-0 bg-gradient-to-br from-purple-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -163,6 +548,36 @@ function App() {
                    From gallery
                  </p>
                </button>
+
+               {/* History Card */}
+               <button 
+                 onClick={() => setMode('history')}
+                 className="group relative bg-neutral-900/50 hover:bg-neutral-900 border border-neutral-800 hover:border-emerald-500/50 rounded-3xl p-8 flex flex-col items-center text-center transition-all duration-300 hover:shadow-2xl hover:shadow-emerald-500/10 overflow-hidden"
+               >
+                 <div className="absolute inset-0 bg-gradient-to-br from-emerald-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+                 <div className="w-20 h-20 rounded-2xl bg-neutral-800 group-hover:bg-emerald-500/20 flex items-center justify-center mb-6 transition-colors shadow-inner">
+                   <History className="w-10 h-10 text-neutral-400 group-hover:text-emerald-400 transition-colors" />
+                 </div>
+                 <h2 className="text-2xl font-semibold text-neutral-200 mb-2">History</h2>
+                 <p className="text-neutral-500 group-hover:text-neutral-400 transition-colors">
+                   Past results
+                 </p>
+               </button>
+
+               {/* Clients Card */}
+               <button 
+                 onClick={() => setMode('clients')}
+                 className="group relative bg-neutral-900/50 hover:bg-neutral-900 border border-neutral-800 hover:border-amber-500/50 rounded-3xl p-8 flex flex-col items-center text-center transition-all duration-300 hover:shadow-2xl hover:shadow-amber-500/10 overflow-hidden"
+               >
+                 <div className="absolute inset-0 bg-gradient-to-br from-amber-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+                 <div className="w-20 h-20 rounded-2xl bg-neutral-800 group-hover:bg-amber-500/20 flex items-center justify-center mb-6 transition-colors shadow-inner">
+                   <Users className="w-10 h-10 text-neutral-400 group-hover:text-amber-400 transition-colors" />
+                 </div>
+                 <h2 className="text-2xl font-semibold text-neutral-200 mb-2">Clients</h2>
+                 <p className="text-neutral-500 group-hover:text-neutral-400 transition-colors">
+                   Profiles & growth
+                 </p>
+               </button>
              </div>
           </div>
         )}
@@ -171,8 +586,10 @@ function App() {
         {mode === 'camera' && (
            <div className="w-full h-full flex items-center justify-center">
                <CameraCapture 
+                 delegate={delegate}
+                 autoCapture={nailSet === 'hands'}
                  onCapture={handleCapture} 
-                 onClose={() => setMode('home')} 
+                 onClose={cancelCapture} 
                />
            </div>
         )}
@@ -184,7 +601,7 @@ function App() {
                 <ImageUploader onUpload={handleCapture} />
              </div>
              <button 
-               onClick={() => setMode('home')}
+               onClick={cancelCapture}
                className="text-neutral-400 hover:text-white transition-colors"
              >
                Cancel
@@ -192,8 +609,25 @@ function App() {
            </div>
         )}
 
+        {/* History Mode */}
+        {mode === 'history' && (
+           <HistoryView 
+             onOpen={openAnalysis}
+             onClose={() => setMode('home')}
+           />
+        )}
+
+        {/* Clients Mode */}
+        {mode === 'clients' && (
+           <ClientsView 
+             sizeChart={sizeCharts.selectedChart}
+             onOpenAnalysis={openAnalysis}
+             onClose={() => setMode('home')}
+           />
+        )}
+
         {/* Result Mode */}
-        {mode === 'result' && imageSrc && (
+        {mode === 'result' && (imageSrc || isAnalyzing || rejectedCapture) && (
            <div className="w-full h-full flex flex-col lg:flex-row items-stretch overflow-hidden">
              
              {isAnalyzing ? (
@@ -201,6 +635,14 @@ function App() {
                    <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-6"></div>
                    <h3 className="text-xl font-medium text-blue-400">Analyzing Geometry...</h3>
                 </div>
+             ) : rejectedCapture ? (
+                <CaptureQualityGate
+                   imageSrc={rejectedCapture.imageSrc}
+                   issues={rejectedCapture.issues}
+                   onRetake={retakeRejected}
+                   onCancel={cancelRejected}
+                   cancelLabel={rejectedCapture.addToSession ? 'Back to session' : 'Cancel'}
+                />
              ) : (
                 <>
                   {/* Left: Image Canvas (Flexible) */}
@@ -212,14 +654,29 @@ function App() {
                         style={{ aspectRatio: imageSize.width && imageSize.height ? `${imageSize.width}/${imageSize.height}` : 'auto' }}
                      >
                         <NailOverlay 
-                          imageSrc={imageSrc} 
+                          ref={overlayRef}
+                          key={activePhotoId}
+                          imageSrc={imageSrc ?? ''} 
+                          imageSize={imageSize}
                           measurements={measurements} 
-                          onMeasurementsChange={setMeasurements}
+                          onMeasurementsChange={updateActiveMeasurements}
                           highlightedIndex={highlightedIndex}
                           onHighlight={setHighlightedIndex}
                           pixelsPerMM={pixelsPerMM}
-                          showCoinTool={showCoinTool}
+                          showCalibrationTool={showCalibrationTool}
+                          referenceObject={references.referenceObject}
+                          perspectiveMode={perspectiveMode}
+                          onCardCornersChange={handleCardCornersChange}
+                          cardCornersRejected={cardCornersRejected}
+                          onEditComplete={editHistory.record}
+                          onUndo={undoEdit}
+                          onRedo={redoEdit}
+                          undoLabel={editHistory.undoLabel}
+                          redoLabel={editHistory.redoLabel}
+                          onDeleteNail={deleteNail}
+                          nailSet={nailSet}
                           onCalibrationChange={(pxPerMM_Screen) => {
+                              let pxPerMM_Image = pxPerMM_Screen;
                               if (containerRef.current && imageSize.width > 0) {
                                  // Now that CoinOverlay is INSIDE the transformed space (which matches Image Natural Space?),
                                  // Wait. The Transformed Space matches the "Unzoomed Display Space".
@@ -233,24 +690,64 @@ function App() {
                                  // So the existing logic holds!
                                  const renderWidth = containerRef.current.clientWidth;
                                  const scaleFactor = imageSize.width / renderWidth;
-                                 const pxPerMM_Image = pxPerMM_Screen * scaleFactor;
-                                 setPixelsPerMM(pxPerMM_Image);
-                              } else {
-                                 setPixelsPerMM(pxPerMM_Screen);
+                                 pxPerMM_Image = pxPerMM_Screen * scaleFactor;
                               }
+                              applyReferenceCalibration({
+                                 pixelsPerMM: pxPerMM_Image,
+                                 homography: undefined,
+                                 calibrationMethod: 'reference',
+                                 calibrationDetail: describeReferenceObject(references.referenceObject)
+                              });
                            }}
                         />
                      </div>
                   </div>
 
                   {/* Right: Sidebar (Fixed Width on Desktop) */}
-                  <div className="w-full lg:w-80 bg-neutral-950 border-t lg:border-t-0 lg:border-l border-neutral-800 h-1/3 lg:h-full shrink-0 overflow-y-auto p-4 z-10 shadow-xl">
+                  <div className="w-full lg:w-80 bg-neutral-950 border-t lg:border-t-0 lg:border-l border-neutral-800 h-1/3 lg:h-full shrink-0 overflow-y-auto p-4 z-10 shadow-xl flex flex-col gap-4">
+                      <PhotoStrip
+                         photos={photos}
+                         activePhotoId={activePhotoId}
+                         onSelect={selectPhoto}
+                         onRemove={removePhoto}
+                         onAddFromCamera={() => startAddingPhoto('camera')}
+                         onAddFromUpload={() => startAddingPhoto('upload')}
+                      />
+                      <QualityWarnings
+                         issues={activePhoto?.qualityIssues ?? []}
+                         onRetake={retakeActivePhoto}
+                      />
+                      {activePhoto && (
+                         <CalibrationComparison
+                            sources={getCalibrationSources(activePhoto)}
+                            activeId={getCalibrationSourceId(calibrationMethod)}
+                            onSelect={selectCalibrationSource}
+                            onReestimate={reestimateScale}
+                         />
+                      )}
+                      <SizeChartSelector
+                         charts={sizeCharts.charts}
+                         selectedChart={sizeCharts.selectedChart}
+                         onSelect={sizeCharts.selectChart}
+                         onImport={sizeCharts.importChart}
+                         onRemove={sizeCharts.removeChart}
+                      />
                       <MeasurementSidebar 
                          measurements={measurements}
                          pixelsPerMM={pixelsPerMM}
+                         homography={homography}
+                         calibrationMethod={calibrationMethod}
+                         scaleEstimate={getActiveScaleEstimate(activePhoto)}
                          highlightedIndex={highlightedIndex}
                          onHighlight={setHighlightedIndex}
-                         imageSize={imageSize}
+                         onSelect={(index) => overlayRef.current?.zoomToNail(index)}
+                         sizeChart={sizeCharts.selectedChart}
+                         fusion={fusion}
+                         detectedMeasurements={activePhoto?.detectedMeasurements}
+                         onRevert={revertNail}
+                         onDelete={deleteNail}
+                         onRelabel={changeNailLabel}
+                         onSwapSide={swapSide}
                       />
                   </div>
                 </>
@@ -0,0 +1,81 @@
+import { RefreshCw } from 'lucide-react';
+import React from 'react';
+import type { CalibrationSource, CalibrationSourceId } from '../lib/calibrationSources';
+import { cn } from '../lib/utils';
+
+interface CalibrationComparisonProps {
+  sources: CalibrationSource[];
+  activeId: CalibrationSourceId | null;
+  onSelect: (id: CalibrationSourceId) => void;
+  // Refit the finger-proportion scale to the current boxes (it isn't refitted on each edit)
+  onReestimate?: () => void;
+}
+
+const formatPercent = (fraction: number) => `${fraction >= 0 ? '+' : '−'}${Math.abs(Math.round(fraction * 100))}%`;
+
+// Side-by-side scales from every calibration source; clicking one makes it the active scale.
+// Differences are in resulting mm sizes, against the reference object when there is one.
+export const CalibrationComparison: React.FC<CalibrationComparisonProps> = ({ sources, activeId, onSelect, onReestimate }) => {
+  const available = sources.filter(s => s.pixelsPerMM != null);
+  if (available.length === 0) return null;
+
+  const baseline = available.find(s => s.id === 'reference') ?? available.find(s => s.id === activeId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-neutral-500">
+        Calibration
+      </label>
+      <div className="flex flex-col gap-1">
+        {sources.map(source => {
+          const isActive = source.id === activeId;
+          const versus = baseline && source !== baseline && source.pixelsPerMM != null && baseline.pixelsPerMM != null
+            ? baseline.pixelsPerMM / source.pixelsPerMM - 1
+            : null;
+
+          return (
+            <button
+              key={source.id}
+              disabled={!source.changes}
+              onClick={() => onSelect(source.id)}
+              className={cn(
+                "text-left px-3 py-2 rounded-lg border transition-colors disabled:cursor-default",
+                isActive ? "bg-blue-500/10 border-blue-500/50" : "bg-neutral-900/50 border-neutral-800 hover:border-neutral-600 disabled:hover:border-neutral-800"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className={cn("font-medium", isActive ? "text-blue-300" : source.changes ? "text-neutral-200" : "text-neutral-500")}>
+                  {source.label}
+                </span>
+                {source.pixelsPerMM != null && (
+                  <span className="font-mono text-xs text-neutral-300 tabular-nums">
+                    {source.pixelsPerMM.toFixed(2)} px/mm
+                    {source.estimate && <span className="text-yellow-500/80"> ±{Math.round(source.estimate.relativeError * 100)}%</span>}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2 text-xs text-neutral-500">
+                <span className="truncate">{source.detail}</span>
+                {versus != null && baseline && (
+                  <span className="shrink-0 tabular-nums" title={`Resulting sizes compared with ${baseline.label.toLowerCase()}`}>
+                    {formatPercent(versus)} vs {baseline.id === 'reference' ? 'ref.' : 'active'}
+                  </span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {onReestimate && (
+        <button
+          onClick={onReestimate}
+          className="self-start flex items-center gap-1.5 text-xs text-neutral-400 hover:text-white transition-colors"
+          title="Fit the finger proportion scale to the boxes as they are now. Drawn boxes are left out."
+        >
+          <RefreshCw className="w-3 h-3" />
+          Re-estimate finger proportions
+        </button>
+      )}
+    </div>
+  );
+};
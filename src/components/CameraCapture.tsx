@@ -1,11 +1,19 @@
-import { RefreshCw, X } from 'lucide-react';
-import React, { useCallback, useRef, useState } from 'react';
+import { RefreshCw, ScanLine, X } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import Webcam from 'react-webcam';
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { useLiveHandTracking } from '../hooks/useLiveHandTracking';
+import type { DelegatePreference } from '../lib/handLandmarker';
+import { areFingertipsVisible, drawNailBoxes, getHandMotion } from '../lib/liveCapture';
 import { cn } from '../lib/utils';
 
 interface CameraCaptureProps {
+  // Delegate setting for the live preview's landmarker
+  delegate: DelegatePreference;
   onCapture: (imageSrc: string) => void;
   onClose: () => void;
+  // Live hand tracking and auto-capture; off for feet, which the hand model can't see
+  autoCapture?: boolean;
 }
 
 const videoConstraints = {
@@ -14,17 +22,95 @@ const videoConstraints = {
   facingMode: "environment" // Use back camera on mobile if available
 };
 
-export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+// Auto-capture once the hand moved less than this (fraction of hand size per frame)...
+const STEADY_MOTION = 0.02;
+// ...for this many consecutive frames
+const STEADY_FRAMES = 15;
+
+type LiveStatus = 'searching' | 'partial' | 'steadying' | 'retrying';
+
+const LIVE_STATUS_TEXT: Record<LiveStatus, string> = {
+  searching: "Show your hand to the camera",
+  partial: "Fit all five fingertips in the frame",
+  steadying: "Hold still…",
+  // The camera had no frame to give (stream not ready, tab hidden)
+  retrying: "Couldn't take the photo. Hold still to try again…"
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ delegate, onCapture, onClose, autoCapture = true }) => {
   const webcamRef = useRef<Webcam>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
 
+  // Live mode: track the hand on the stream, draw its nails and shoot when it is steady
+  const [isLive, setIsLive] = useState(autoCapture);
+  const { detectFrame, isLoading: isLiveLoading, error: liveError } = useLiveHandTracking(isLive, delegate);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('searching');
+  const [steadyProgress, setSteadyProgress] = useState(0);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const hasCapturedRef = useRef(false);
+
+  // False when no photo was taken, e.g. the stream had no frame yet
   const capture = useCallback(() => {
+    if (hasCapturedRef.current) return true;
     const imageSrc = webcamRef.current?.getScreenshot();
-    if (imageSrc) {
-      onCapture(imageSrc);
-    }
+    if (!imageSrc) return false;
+    hasCapturedRef.current = true;
+    onCapture(imageSrc);
+    return true;
   }, [webcamRef, onCapture]);
 
+  useEffect(() => {
+    if (!isLive || !isCameraReady) return;
+
+    let frameId = 0;
+    let lastVideoTime = -1;
+    let previousHand: NormalizedLandmark[] | null = null;
+    let steadyFrames = 0;
+    // A steady hand whose screenshot failed; cleared once the hand leaves the frame
+    let missedCapture = false;
+
+    const tick = () => {
+      frameId = requestAnimationFrame(tick);
+      const video = webcamRef.current?.video;
+      const canvas = overlayRef.current;
+      // Only run the model on new video frames
+      if (!video || !canvas || video.readyState < 2 || video.currentTime === lastVideoTime) return;
+      lastVideoTime = video.currentTime;
+
+      const frame = detectFrame(video, performance.now());
+      if (!frame) return;
+      drawNailBoxes(canvas, video, frame.measurements);
+
+      const hand = frame.landmarks.find(areFingertipsVisible) ?? null;
+      if (!hand) {
+        steadyFrames = 0;
+        missedCapture = false;
+        setLiveStatus(frame.landmarks.length > 0 ? 'partial' : 'searching');
+      } else {
+        const isSteady = previousHand !== null && getHandMotion(previousHand, hand) < STEADY_MOTION;
+        steadyFrames = isSteady ? steadyFrames + 1 : 0;
+        setLiveStatus(missedCapture ? 'retrying' : 'steadying');
+      }
+      previousHand = hand;
+      // Rounded so React only re-renders when the ring visibly changes
+      setSteadyProgress(Math.round((steadyFrames / STEADY_FRAMES) * 20) / 20);
+
+      if (steadyFrames >= STEADY_FRAMES) {
+        if (capture()) {
+          cancelAnimationFrame(frameId);
+        } else {
+          // Keep tracking and try again after another steady stretch
+          steadyFrames = 0;
+          missedCapture = true;
+          setLiveStatus('retrying');
+        }
+      }
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isLive, isCameraReady, detectFrame, capture]);
+
   return (
     <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
       <button 
@@ -44,6 +130,9 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
           onUserMedia={() => setIsCameraReady(true)}
           onUserMediaError={(err) => console.error("Camera Error:", err)}
         />
+        {isLive && (
+          <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        )}
         
         {!isCameraReady && (
           <div className="absolute inset-0 flex items-center justify-center bg-neutral-900 text-neutral-400">
@@ -55,15 +144,43 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
         )}
       </div>
 
-      <div className="absolute bottom-8 left-0 right-0 flex justify-center pb-4 px-4 bg-gradient-to-t from-black/80 to-transparent pt-12">
+      {autoCapture && (
+        <button
+          onClick={() => setIsLive(!isLive)}
+          className={cn(
+            "absolute top-4 left-4 px-3 py-1.5 rounded-full text-sm font-medium flex items-center gap-2 border transition-colors z-10",
+            isLive ? "bg-blue-500/20 border-blue-500/50 text-blue-200" : "bg-neutral-800/50 border-neutral-700 text-neutral-300 hover:bg-neutral-700"
+          )}
+          title="Detect the hand live and capture automatically"
+        >
+          <ScanLine className="w-4 h-4" />
+          Auto-capture {isLive ? 'on' : 'off'}
+        </button>
+      )}
+
+      <div className="absolute bottom-8 left-0 right-0 flex flex-col items-center gap-3 pb-4 px-4 bg-gradient-to-t from-black/80 to-transparent pt-12">
+        {isLive && isCameraReady && (
+          <p className="text-sm text-white/90 bg-black/40 px-3 py-1 rounded-full">
+            {liveError ?? (isLiveLoading ? "Loading live detection…" : LIVE_STATUS_TEXT[liveStatus])}
+          </p>
+        )}
         <button
           onClick={capture}
           disabled={!isCameraReady}
           className={cn(
-            "w-20 h-20 rounded-full border-4 border-white flex items-center justify-center transition-all transform active:scale-95 shadow-lg",
+            "relative w-20 h-20 rounded-full border-4 border-white flex items-center justify-center transition-all transform active:scale-95 shadow-lg",
              isCameraReady ? "bg-transparent hover:bg-white/20" : "opacity-50 cursor-not-allowed border-neutral-500"
           )}
         >
+          {/* Steadiness ring: fills up while the hand holds still */}
+          {isLive && steadyProgress > 0 && (
+            <svg className="absolute -inset-1 w-[calc(100%+0.5rem)] h-[calc(100%+0.5rem)] -rotate-90" viewBox="0 0 100 100">
+              <circle
+                cx="50" cy="50" r="47" fill="none" stroke="#60a5fa" strokeWidth="6"
+                strokeDasharray={`${steadyProgress * 295} 295`}
+              />
+            </svg>
+          )}
           <div className="w-16 h-16 rounded-full bg-white transition-opacity hover:opacity-90" />
         </button>
       </div>
@@ -0,0 +1,71 @@
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import React from 'react';
+import type { QualityIssue } from '../lib/captureQuality';
+import { cn } from '../lib/utils';
+
+interface CaptureQualityGateProps {
+  imageSrc: string;
+  issues: QualityIssue[];
+  onRetake: () => void;
+  onCancel: () => void;
+  cancelLabel: string;
+}
+
+// Shown instead of the result when a photo is too poor to measure
+export const CaptureQualityGate: React.FC<CaptureQualityGateProps> = ({
+  imageSrc,
+  issues,
+  onRetake,
+  onCancel,
+  cancelLabel
+}) => {
+  return (
+    <div className="w-full h-full flex items-center justify-center p-4 overflow-y-auto">
+      <div className="w-full max-w-lg bg-neutral-900/50 border border-neutral-800 rounded-3xl p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-red-500/20 flex items-center justify-center">
+            <AlertTriangle className="w-5 h-5 text-red-300" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-200">This photo can't be measured reliably</h2>
+            <p className="text-sm text-neutral-500">Sizes from it would be off. Please take it again.</p>
+          </div>
+        </div>
+
+        <img src={imageSrc} alt="Rejected capture" className="w-full max-h-64 object-contain rounded-xl bg-black border border-neutral-800" />
+
+        <ul className="flex flex-col gap-2">
+          {issues.map(issue => (
+            <li
+              key={issue.kind}
+              className={cn(
+                "text-sm px-3 py-2 rounded-lg border",
+                issue.severity === 'block'
+                  ? "bg-red-500/10 border-red-500/20 text-red-200"
+                  : "bg-yellow-500/10 border-yellow-500/20 text-yellow-200"
+              )}
+            >
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-400 hover:text-white transition-colors"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            onClick={onRetake}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white flex items-center gap-2 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Retake
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePointerDrag } from '../hooks/usePointerDrag';
+import { resizeBoxEdge, rotateBox, translateBox, type OrientedBox } from '../lib/boxGeometry';
+import { cn } from '../lib/utils';
+
+interface CardOverlayProps {
+  onCalibrationChange: (pixelsPerMM: number) => void;
+  isVisible: boolean;
+  scale?: number;
+  // Real size of the selected card / rectangle and its display name
+  widthMM: number;
+  heightMM: number;
+  label: string;
+}
+
+type CardInteraction = 'drag' | 'resize' | 'rotate';
+
+// Rectangular counterpart of CoinOverlay (ID-1 cards, custom rectangles).
+// Position is the rectangle's center so rotation doesn't shift it.
+export function CardOverlay({ onCalibrationChange, isVisible, scale = 1, widthMM, heightMM, label }: CardOverlayProps) {
+  const [size, setSize] = useState({ width: 200, height: 200 * (heightMM / widthMM) });
+  const [center, setCenter] = useState({ x: 0, y: 0 });
+  const [rotation, setRotation] = useState(0);
+  const [initialized, setInitialized] = useState(false);
+
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Card (in overlay pixels) as it was when the current drag started
+  const dragStartRef = useRef<OrientedBox>({ ...center, ...size, rotation });
+
+  const cardDrag = usePointerDrag<CardInteraction>({
+    onStart: () => {
+      dragStartRef.current = { ...center, ...size, rotation };
+    },
+    onMove: ({ target, start, current }) => {
+      const initial = dragStartRef.current;
+      const delta = { x: (current.x - start.x) / scale, y: (current.y - start.y) / scale };
+
+      let card = initial;
+      if (target === 'drag') {
+        card = translateBox(initial, delta);
+      } else if (target === 'resize') {
+        // Bottom-right corner: the right and bottom edges follow, the opposite corner stays put
+        card = resizeBoxEdge(resizeBoxEdge(initial, 'e', delta, 40), 's', delta, 25);
+      } else if (overlayRef.current) {
+        // Angle swept by the pointer around the card center (in overlay space)
+        const rect = overlayRef.current.getBoundingClientRect();
+        const toOverlay = (p: { x: number; y: number }) => ({ x: (p.x - rect.left) / scale, y: (p.y - rect.top) / scale });
+        card = rotateBox(initial, toOverlay(start), toOverlay(current));
+      }
+
+      setCenter({ x: card.x, y: card.y });
+      setSize({ width: card.width, height: card.height });
+      setRotation(card.rotation);
+    }
+  });
+  const interaction = cardDrag.activeTarget;
+
+  // Center the card on mount based on actual container size
+  useEffect(() => {
+    if (isVisible && overlayRef.current && !initialized) {
+      const { clientWidth, clientHeight } = overlayRef.current;
+      setCenter({ x: clientWidth / 2, y: clientHeight / 2 });
+      setInitialized(true);
+    }
+  }, [isVisible, initialized]);
+
+  // Parents pass a fresh callback each render; report through the latest one
+  // without re-running the calibration effect for it
+  const onCalibrationChangeRef = useRef(onCalibrationChange);
+  useEffect(() => {
+    onCalibrationChangeRef.current = onCalibrationChange;
+  }, [onCalibrationChange]);
+
+  useEffect(() => {
+    // Both edges give a scale; average them to soften a sloppy fit
+    if (isVisible) {
+      onCalibrationChangeRef.current((size.width / widthMM + size.height / heightMM) / 2);
+    }
+  }, [size, widthMM, heightMM, isVisible]);
+
+  if (!isVisible) return null;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={cn(
+        "absolute inset-0 pointer-events-auto overflow-hidden text-white transition-opacity duration-300",
+        !initialized ? "opacity-0" : "opacity-100"
+      )}
+    >
+      <div className="absolute top-4 left-4 bg-black/60 backdrop-blur px-4 py-2 rounded-lg text-sm border border-white/10 z-50">
+        <p className="font-bold text-yellow-400">💳 Card Calibration Mode</p>
+        <p className="text-neutral-300">Match the rectangle to the edges of your {label}.</p>
+      </div>
+
+      <div
+        className={cn(
+          "absolute rounded-md border-2 border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.5)] cursor-move",
+          interaction === 'drag' && "cursor-grabbing border-yellow-300"
+        )}
+        style={{
+          width: size.width,
+          height: size.height,
+          left: center.x,
+          top: center.y,
+          transform: `translate(-50%, -50%) rotate(${rotation}rad)`,
+        }}
+        {...cardDrag.bind('drag')}
+      >
+        {/* Crosshair */}
+        <div className="absolute inset-0 flex items-center justify-center opacity-30 pointer-events-none">
+          <div className="w-full h-px bg-yellow-400/50" />
+          <div className="h-full w-px bg-yellow-400/50 absolute" />
+        </div>
+
+        {/* Resize Handle (Bottom Right) */}
+        <div
+           className="absolute -bottom-1.5 -right-1.5 p-1 bg-yellow-500 rounded-full cursor-nwse-resize hover:scale-125 transition-transform"
+           {...cardDrag.bind('resize')}
+        >
+          <div className="w-2 h-2 bg-black rounded-full" />
+        </div>
+
+        {/* Rotate Handle */}
+        <div
+           className="absolute -top-8 left-1/2 -ml-0.5 w-1 h-8 bg-yellow-400/50"
+           {...cardDrag.bind('rotate')}
+        >
+          <div className="absolute top-0 left-1/2 -ml-1.5 -mt-1.5 w-3 h-3 bg-yellow-400 rounded-full border border-black/40 cursor-grab" />
+        </div>
+
+        {/* Info Label */}
+        <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black/70 px-2 py-0.5 rounded text-xs font-mono">
+           {widthMM} × {heightMM} mm
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePointerDrag } from '../hooks/usePointerDrag';
+import { orderQuadCorners, type Point } from '../lib/geometry';
+import { detectCardCorners, type DetectedQuad } from '../lib/quadDetection';
+import { cn } from '../lib/utils';
+
+interface CardPerspectiveOverlayProps {
+  // Corners in natural image pixels, ordered TL, TR, BR, BL
+  onCornersChange: (corners: Point[]) => void;
+  // The reported corners don't outline a usable card (dented or too small)
+  rejected?: boolean;
+  isVisible: boolean;
+  scale?: number;
+  widthMM: number;
+  heightMM: number;
+  label: string;
+  imageSrc: string;
+}
+
+// Below this perimeter coverage the quad is probably not the card
+const MIN_DETECTION_CONFIDENCE = 0.6;
+const CORNER_LABELS = ['TL', 'TR', 'BR', 'BL'];
+
+interface ImageFit {
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+// Four draggable corners placed on a card lying next to the hand.
+// Unlike CardOverlay the shape is free, so the perspective of a tilted photo can be recovered.
+export function CardPerspectiveOverlay({
+  onCornersChange,
+  rejected = false,
+  isVisible,
+  scale = 1,
+  widthMM,
+  heightMM,
+  label,
+  imageSrc
+}: CardPerspectiveOverlayProps) {
+  // Corners in overlay (display) pixels
+  const [corners, setCorners] = useState<Point[] | null>(null);
+  const [imageFit, setImageFit] = useState<ImageFit | null>(null);
+  // Auto-detection result, keyed by the image it was run on
+  const [detection, setDetection] = useState<{ src: string; quad: DetectedQuad | null } | null>(null);
+  const [manuallyAdjusted, setManuallyAdjusted] = useState(false);
+  const isDetecting = isVisible && detection?.src !== imageSrc;
+
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Corners as they were when the current drag started
+  const dragStartRef = useRef<Point[] | null>(null);
+
+  const cornerDrag = usePointerDrag<number>({
+    onStart: () => {
+      setManuallyAdjusted(true);
+      dragStartRef.current = corners;
+    },
+    onMove: ({ target, start, current }) => {
+      const initial = dragStartRef.current;
+      if (!initial) return;
+      const dx = (current.x - start.x) / scale;
+      const dy = (current.y - start.y) / scale;
+      setCorners(initial.map((p, i) => (i === target ? { x: p.x + dx, y: p.y + dy } : p)));
+    }
+  });
+  const activeCorner = cornerDrag.activeTarget;
+
+  // Natural image pixels <-> overlay pixels (image is object-contain centered)
+  const getFit = (fit: ImageFit) => {
+    const { clientWidth, clientHeight } = overlayRef.current!;
+    const ratio = Math.min(clientWidth / fit.naturalWidth, clientHeight / fit.naturalHeight);
+    return {
+      ratio,
+      offsetX: (clientWidth - fit.naturalWidth * ratio) / 2,
+      offsetY: (clientHeight - fit.naturalHeight * ratio) / 2
+    };
+  };
+
+  // Load the photo once per image: auto-detect the card, or fall back to a centered rectangle
+  useEffect(() => {
+    if (!isVisible || detection?.src === imageSrc) return;
+
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      // Yield a frame so the overlay paints before the (blocking) transform runs
+      setTimeout(() => {
+        if (cancelled || !overlayRef.current) return;
+        let quad: DetectedQuad | null = null;
+        try {
+          quad = detectCardCorners(img, widthMM / heightMM);
+        } catch (err) {
+          console.error("Card detection failed:", err);
+        }
+
+        const fit = { naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight };
+        const { ratio, offsetX, offsetY } = getFit(fit);
+        setImageFit(fit);
+        setDetection({ src: imageSrc, quad });
+        setManuallyAdjusted(false);
+
+        if (quad && quad.confidence >= MIN_DETECTION_CONFIDENCE) {
+          setCorners(quad.corners.map(p => ({ x: offsetX + p.x * ratio, y: offsetY + p.y * ratio })));
+        } else {
+          const { clientWidth, clientHeight } = overlayRef.current;
+          const w = clientWidth * 0.4;
+          const h = w * (Math.min(widthMM, heightMM) / Math.max(widthMM, heightMM));
+          const cx = clientWidth / 2;
+          const cy = clientHeight / 2;
+          setCorners([
+            { x: cx - w / 2, y: cy - h / 2 },
+            { x: cx + w / 2, y: cy - h / 2 },
+            { x: cx + w / 2, y: cy + h / 2 },
+            { x: cx - w / 2, y: cy + h / 2 },
+          ]);
+        }
+      }, 50);
+    };
+    img.src = imageSrc;
+
+    return () => { cancelled = true; };
+  }, [isVisible, imageSrc, detection, widthMM, heightMM]);
+
+  // Latest callback, so an inline parent handler doesn't re-report unchanged corners
+  const onCornersChangeRef = useRef(onCornersChange);
+  useEffect(() => {
+    onCornersChangeRef.current = onCornersChange;
+  }, [onCornersChange]);
+
+  useEffect(() => {
+    if (!isVisible || !corners || !imageFit || !overlayRef.current) return;
+    const { ratio, offsetX, offsetY } = getFit(imageFit);
+    onCornersChangeRef.current(corners.map(p => ({ x: (p.x - offsetX) / ratio, y: (p.y - offsetY) / ratio })));
+  }, [corners, imageFit, isVisible]);
+
+  if (!isVisible) return null;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={cn(
+        "absolute inset-0 overflow-hidden text-white transition-opacity duration-300",
+        // Let pan/zoom reach the image everywhere except on the handles
+        "pointer-events-none",
+        !corners ? "opacity-0" : "opacity-100"
+      )}
+    >
+      <div className="absolute top-4 left-4 bg-black/60 backdrop-blur px-4 py-2 rounded-lg text-sm border border-white/10 z-50">
+        <p className="font-bold text-yellow-400">💳 Perspective Calibration</p>
+        <p className="text-neutral-300">Drag the four handles onto the corners of your {label}.</p>
+        <p className="text-xs mt-1 text-neutral-400">
+          {isDetecting && "Searching for card…"}
+          {!isDetecting && detection?.quad && detection.quad.confidence >= MIN_DETECTION_CONFIDENCE && (
+            <>
+              Auto-detected · <span className="text-yellow-300 tabular-nums">{Math.round(detection.quad.confidence * 100)}%</span> confidence
+              {manuallyAdjusted && " · adjusted"}
+            </>
+          )}
+          {!isDetecting && (!detection?.quad || detection.quad.confidence < MIN_DETECTION_CONFIDENCE) && "No card found automatically."}
+        </p>
+        {rejected && (
+          <p className="text-xs mt-1 text-red-300">
+            These corners don't outline a card (a dent or too small). The last valid calibration is kept.
+          </p>
+        )}
+      </div>
+
+      {corners && (
+        <>
+          <svg className="absolute inset-0 w-full h-full pointer-events-none">
+            {/* Drawn in calibration order, so corners dragged past each other don't cross */}
+            <polygon
+              points={orderQuadCorners(corners).map(p => `${p.x},${p.y}`).join(' ')}
+              fill={rejected ? "rgba(248,113,113,0.1)" : "rgba(250,204,21,0.1)"}
+              stroke={rejected ? "#f87171" : "#facc15"}
+              strokeWidth={2 / scale}
+            />
+          </svg>
+
+          {corners.map((p, i) => (
+            <div
+              key={CORNER_LABELS[i]}
+              className={cn(
+                "absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-yellow-400 bg-black/50 cursor-move pointer-events-auto flex items-center justify-center",
+                activeCorner === i && "bg-yellow-400/50"
+              )}
+              style={{ left: p.x, top: p.y }}
+              {...cornerDrag.bind(i)}
+            >
+              <span className="absolute -top-5 text-[10px] font-mono bg-black/70 px-1 rounded">{CORNER_LABELS[i]}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
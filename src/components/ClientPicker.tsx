@@ -0,0 +1,48 @@
+import { UserRound } from 'lucide-react';
+import React from 'react';
+import { useClients } from '../hooks/useClients';
+
+interface ClientPickerProps {
+  clientId?: string;
+  onChange: (clientId: string | undefined) => void;
+}
+
+const NEW_CLIENT_VALUE = '__new__';
+
+// Attaches the open analysis to a client profile (or creates one on the fly)
+export const ClientPicker: React.FC<ClientPickerProps> = ({ clientId, onChange }) => {
+  const { clients, createClient } = useClients();
+
+  const handleChange = async (value: string) => {
+    if (value !== NEW_CLIENT_VALUE) {
+      onChange(value || undefined);
+      return;
+    }
+
+    const name = prompt("New client name");
+    if (!name?.trim()) return;
+    try {
+      const client = await createClient(name);
+      onChange(client.id);
+    } catch (err) {
+      console.error("Failed to create client:", err);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-neutral-800 border border-neutral-700 text-neutral-300" title="Client">
+      <UserRound className="w-4 h-4 shrink-0" />
+      <select
+        value={clientId ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-transparent text-sm max-w-32 outline-none"
+      >
+        <option value="">No client</option>
+        {clients.map(client => (
+          <option key={client.id} value={client.id}>{client.name}</option>
+        ))}
+        <option value={NEW_CLIENT_VALUE}>+ New client…</option>
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,249 @@
+import { FolderOpen, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useClients } from '../hooks/useClients';
+import { describeCalibration } from '../lib/calibration';
+import { buildFingerTimelines, getLatestCalibratedAnalysis } from '../lib/clientTimeline';
+import { fuseSessionPhotos, getFusedNail } from '../lib/fusion';
+import { getSessionPhotos, listAnalysesForClient, type AnalysisRecord } from '../lib/historyStore';
+import { getNailLabel, groupByHand } from '../lib/nails';
+import { matchNailSize, type SizeChart } from '../lib/sizeCharts';
+import { cn } from '../lib/utils';
+import { TimelineChart } from './TimelineChart';
+
+interface ClientsViewProps {
+  sizeChart: SizeChart;
+  onOpenAnalysis: (record: AnalysisRecord) => void;
+  onClose: () => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-lg bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors";
+
+export const ClientsView: React.FC<ClientsViewProps> = ({ sizeChart, onOpenAnalysis, onClose }) => {
+  const { clients, error, createClient, renameClient, removeClient } = useClients();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Tagged with the client id so a previous client's visits never flash up
+  const [loaded, setLoaded] = useState<{ clientId: string; records: AnalysisRecord[] } | null>(null);
+  const [newName, setNewName] = useState('');
+  // Failed create/rename/delete; loading errors come from useClients
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const selectedClient = clients.find(c => c.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    listAnalysesForClient(selectedId)
+      .then(result => { if (!cancelled) setLoaded({ clientId: selectedId, records: result }); })
+      .catch(err => console.error("Failed to load client analyses:", err));
+    return () => { cancelled = true; };
+  }, [selectedId]);
+
+  const visibleRecords = selectedClient && loaded?.clientId === selectedClient.id ? loaded.records : [];
+  const timelines = buildFingerTimelines(visibleRecords);
+  const latest = getLatestCalibratedAnalysis(visibleRecords);
+  const latestFusion = latest ? fuseSessionPhotos(getSessionPhotos(latest)) : undefined;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      const client = await createClient(newName);
+      setNewName('');
+      setSelectedId(client.id);
+      setActionError(null);
+    } catch (err) {
+      console.error("Failed to create client:", err);
+      setActionError("Could not create the client profile.");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selectedClient) return;
+    const name = prompt("Rename client", selectedClient.name);
+    if (!name?.trim()) return;
+    try {
+      await renameClient(selectedClient, name);
+      setActionError(null);
+    } catch (err) {
+      console.error("Failed to rename client:", err);
+      setActionError("Could not rename the client profile.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedClient) return;
+    if (!confirm(`Delete profile "${selectedClient.name}"? Their analyses stay in History.`)) return;
+    try {
+      await removeClient(selectedClient.id);
+      setSelectedId(null);
+      setActionError(null);
+    } catch (err) {
+      console.error("Failed to delete client:", err);
+      setActionError("Could not delete the client profile.");
+    }
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-4 md:p-8">
+      <div className="max-w-6xl mx-auto flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-neutral-200 flex items-center gap-3">
+            <Users className="w-6 h-6 text-amber-400" />
+            Clients
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {(actionError ?? error) && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-200 px-4 py-3 rounded-xl">
+            {actionError ?? error}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-6 items-start">
+          {/* Client List */}
+          <div className="w-full md:w-64 shrink-0 flex flex-col gap-2">
+            <form onSubmit={handleCreate} className="flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New client name"
+                className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-sm text-white"
+              />
+              <button type="submit" className={iconButtonClass} title="Add client">
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+
+            {clients.map(client => (
+              <button
+                key={client.id}
+                onClick={() => setSelectedId(client.id)}
+                className={cn(
+                  "text-left px-3 py-2 rounded-lg border transition-all",
+                  selectedId === client.id
+                    ? "bg-amber-500/15 border-amber-500/40 text-white"
+                    : "bg-neutral-800/50 border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+                )}
+              >
+                {client.name}
+              </button>
+            ))}
+
+            {clients.length === 0 && (
+              <p className="text-sm text-neutral-500 py-4">
+                No clients yet. Attach an analysis to a client from the result screen, or add one here.
+              </p>
+            )}
+          </div>
+
+          {/* Client Detail */}
+          {selectedClient && (
+            <div className="flex-1 min-w-0 flex flex-col gap-6">
+              <div className="flex items-center gap-2">
+                <h3 className="text-xl font-semibold text-white flex-1 truncate">{selectedClient.name}</h3>
+                <button className={iconButtonClass} onClick={handleRename} title="Rename">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  className={cn(iconButtonClass, "hover:bg-red-500/20 hover:text-red-300")}
+                  onClick={handleDelete}
+                  title="Delete profile"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* Current Size Set */}
+              <section className="flex flex-col gap-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-neutral-500">
+                  Current Sizes ({sizeChart.name})
+                </h4>
+                {latest ? (
+                  <>
+                    <p className="text-xs text-neutral-500">
+                      From {new Date(latest.createdAt).toLocaleDateString()} · {describeCalibration(latest.calibrationMethod, latest.calibrationDetail)}
+                    </p>
+                    <div className="flex flex-wrap gap-4">
+                      {groupByHand(latest.measurements).map(group => (
+                        <div key={group.handIndex} className="flex gap-2">
+                          {group.nails.map(({ measurement: m, index }) => {
+                            const dimensions = getFusedNail(latestFusion, latest.measurements, m);
+                            const match = dimensions ? matchNailSize(dimensions.widthMM, sizeChart) : null;
+                            return (
+                              <div
+                                key={index}
+                                className="px-3 py-2 rounded-lg bg-neutral-800/50 border border-neutral-700 text-center"
+                                title={dimensions ? `${dimensions.widthMM.toFixed(1)} mm` : undefined}
+                              >
+                                <div className="text-[10px] text-neutral-500">{getNailLabel(m)}</div>
+                                <div className="text-lg font-bold text-purple-200">{match?.best.size ?? '—'}</div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-yellow-500/80 bg-yellow-500/10 p-2 rounded">
+                    No reference-calibrated visit yet. Calibrate a session to set this client's sizes.
+                  </p>
+                )}
+              </section>
+
+              {/* Timelines */}
+              <section className="flex flex-col gap-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-neutral-500">
+                  Growth Timeline
+                </h4>
+                {timelines.length > 0 ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+                    {timelines.map(timeline => (
+                      <TimelineChart key={timeline.key} title={timeline.label} points={timeline.points} />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-neutral-500">No measured visits yet.</p>
+                )}
+              </section>
+
+              {/* Visits */}
+              <section className="flex flex-col gap-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-neutral-500">
+                  Visits ({visibleRecords.length})
+                </h4>
+                {[...visibleRecords].reverse().map(record => (
+                  <div
+                    key={record.id}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg bg-neutral-800/50 border border-neutral-700"
+                  >
+                    <img src={record.imageSrc} alt="" className="w-12 h-12 rounded object-cover" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-neutral-200 truncate">{record.name}</div>
+                      <div className="text-xs text-neutral-500">
+                        {new Date(record.createdAt).toLocaleString()}
+                        {' · '}
+                        {record.pixelsPerMM
+                          ? describeCalibration(record.calibrationMethod, record.calibrationDetail)
+                          : 'Uncalibrated'}
+                      </div>
+                    </div>
+                    <button className={iconButtonClass} onClick={() => onOpenAnalysis(record)} title="Open">
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </section>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,59 @@
-import React, { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { usePointerDrag } from '../hooks/usePointerDrag';
+import { detectCircle, type DetectedCircle } from '../lib/circleDetection';
 import { cn } from '../lib/utils';
 
 interface CoinOverlayProps {
   onCalibrationChange: (pixelsPerMM: number) => void;
   isVisible: boolean;
   scale?: number;
+  // Real diameter of the selected coin and its display name
+  diameterMM: number;
+  label: string;
+  // Photo to search for the coin when the tool opens
+  imageSrc: string;
 }
 
-// 10 NTD Coin Diameter = 26mm
-const COIN_DIAMETER_MM = 26.0;
+// Below this circumference coverage the "circle" is more likely a fingertip than a coin
+const MIN_DETECTION_CONFIDENCE = 0.75;
 
-export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1 }: CoinOverlayProps) {
+export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1, diameterMM, label, imageSrc }: CoinOverlayProps) {
   // Default size: roughly 100px
   const [diameter, setDiameter] = useState(100);
   // Start at 0,0 but hide until centered? Or just center on mount.
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [initialized, setInitialized] = useState(false);
   
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState(false);
-  
   const overlayRef = useRef<HTMLDivElement>(null);
-  const dragStartRef = useRef({ x: 0, y: 0 });
+
+  // Auto-detection result, keyed by the image it was run on
+  const [detection, setDetection] = useState<{ src: string; circle: DetectedCircle | null } | null>(null);
+  const [manuallyAdjusted, setManuallyAdjusted] = useState(false);
+  const isDetecting = isVisible && detection?.src !== imageSrc;
+
+  // Circle as it was when the current drag started
+  const dragStartRef = useRef({ position, diameter });
+
+  const coinDrag = usePointerDrag<'drag' | 'resize'>({
+    onStart: () => {
+      setManuallyAdjusted(true);
+      dragStartRef.current = { position, diameter };
+    },
+    onMove: ({ target, start, current }) => {
+      const dx = (current.x - start.x) / scale;
+      const dy = (current.y - start.y) / scale;
+      const initial = dragStartRef.current;
+
+      if (target === 'drag') {
+        setPosition({ x: initial.position.x + dx, y: initial.position.y + dy });
+      } else {
+        // Simple resize logic: dragging right/down increases size
+        setDiameter(Math.max(20, initial.diameter + Math.max(dx, dy)));
+      }
+    }
+  });
+  const isDragging = coinDrag.activeTarget === 'drag';
+  const isResizing = coinDrag.activeTarget === 'resize';
 
   // Center the coin on mount based on actual container size
   useEffect(() => {
@@ -35,88 +67,56 @@ export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1 }: CoinO
     }
   }, [isVisible, initialized, diameter]);
 
+  // Search the photo for a coin once per image, then snap the circle onto it
+  useEffect(() => {
+    if (!isVisible || detection?.src === imageSrc) return;
+
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      // Yield a frame so the overlay paints before the (blocking) transform runs
+      setTimeout(() => {
+        if (cancelled) return;
+        let circle: DetectedCircle | null = null;
+        try {
+          circle = detectCircle(img);
+        } catch (err) {
+          console.error("Coin detection failed:", err);
+        }
+        setDetection({ src: imageSrc, circle });
+        setManuallyAdjusted(false);
+
+        const overlay = overlayRef.current;
+        if (!circle || circle.confidence < MIN_DETECTION_CONFIDENCE || !overlay) return;
+
+        // Natural image pixels -> overlay pixels (image is object-contain centered)
+        const { clientWidth, clientHeight } = overlay;
+        const fit = Math.min(clientWidth / img.naturalWidth, clientHeight / img.naturalHeight);
+        const offsetX = (clientWidth - img.naturalWidth * fit) / 2;
+        const offsetY = (clientHeight - img.naturalHeight * fit) / 2;
+
+        setDiameter(circle.radius * 2 * fit);
+        setPosition({
+          x: offsetX + (circle.x - circle.radius) * fit,
+          y: offsetY + (circle.y - circle.radius) * fit
+        });
+        setInitialized(true);
+      }, 50);
+    };
+    img.src = imageSrc;
+
+    return () => { cancelled = true; };
+  }, [isVisible, imageSrc, detection]);
+
   useEffect(() => {
     // Initial calibration
     if (isVisible) {
-      onCalibrationChange(diameter / COIN_DIAMETER_MM);
+      onCalibrationChange(diameter / diameterMM);
     }
-  }, [diameter, isVisible]);
+  }, [diameter, diameterMM, isVisible]);
 
   if (!isVisible) return null;
 
-  const handleMouseDown = (e: React.MouseEvent, mode: 'drag' | 'resize') => {
-    e.preventDefault();
-    e.stopPropagation(); // Stop propagation to prevent panning correctly
-    if (mode === 'drag') setIsDragging(true);
-    if (mode === 'resize') setIsResizing(true);
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging && !isResizing) return;
-    e.preventDefault();
-    e.stopPropagation();
-
-    const dx = (e.clientX - dragStartRef.current.x) / scale;
-    const dy = (e.clientY - dragStartRef.current.y) / scale;
-
-    if (isDragging) {
-      setPosition(prev => ({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-    } else if (isResizing) {
-      // Simple resize logic: dragging right/down increases size
-      const delta = Math.max(dx, dy); 
-      setDiameter(prev => Math.max(20, prev + delta));
-    }
-
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
-  };
-
-  const handleMouseUp = () => {
-    setIsDragging(false);
-    setIsResizing(false);
-  };
-
-  // Touch Handlers mapping to Mouse Logic
-  const handleTouchStart = (e: React.TouchEvent, mode: 'drag' | 'resize') => {
-    e.stopPropagation(); 
-    const touch = e.touches[0];
-    if (mode === 'drag') setIsDragging(true);
-    if (mode === 'resize') setIsResizing(true);
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
-  };
-
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!isDragging && !isResizing) return;
-    
-    // Prevent scrolling strictly when interacting
-    if (e.cancelable) e.preventDefault(); 
-    e.stopPropagation();
-
-    const touch = e.touches[0];
-    const dx = (touch.clientX - dragStartRef.current.x) / scale;
-    const dy = (touch.clientY - dragStartRef.current.y) / scale;
-
-    if (isDragging) {
-      setPosition(prev => ({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-    } else if (isResizing) {
-      const delta = Math.max(dx, dy); 
-      setDiameter(prev => Math.max(20, prev + delta));
-    }
-
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
-  };
-
-  const handleTouchEnd = () => {
-    setIsDragging(false);
-    setIsResizing(false);
-  };
-
   return (
     <div 
       ref={overlayRef}
@@ -124,15 +124,20 @@ export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1 }: CoinO
         "absolute inset-0 pointer-events-auto overflow-hidden text-white transition-opacity duration-300",
         !initialized ? "opacity-0" : "opacity-100"
       )}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
     >
       <div className="absolute top-4 left-4 bg-black/60 backdrop-blur px-4 py-2 rounded-lg text-sm border border-white/10 z-50">
         <p className="font-bold text-yellow-400">🪙 Coin Calibration Mode</p>
-        <p className="text-neutral-300">Drag the circle to match your 10 NTD coin.</p>
+        <p className="text-neutral-300">Drag the circle to match your {label}.</p>
+        <p className="text-xs mt-1 text-neutral-400">
+          {isDetecting && "Searching for coin…"}
+          {!isDetecting && detection?.circle && detection.circle.confidence >= MIN_DETECTION_CONFIDENCE && (
+            <>
+              Auto-detected · <span className="text-yellow-300 tabular-nums">{Math.round(detection.circle.confidence * 100)}%</span> confidence
+              {manuallyAdjusted && " · adjusted"}
+            </>
+          )}
+          {!isDetecting && (!detection?.circle || detection.circle.confidence < MIN_DETECTION_CONFIDENCE) && "No coin found automatically."}
+        </p>
       </div>
 
       <div 
@@ -147,8 +152,7 @@ export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1 }: CoinO
           left: position.x,
           top: position.y,
         }}
-        onMouseDown={(e) => handleMouseDown(e, 'drag')}
-        onTouchStart={(e) => handleTouchStart(e, 'drag')}
+        {...coinDrag.bind('drag')}
       >
         {/* Safe Area / Crosshair */}
         <div className="absolute inset-0 flex items-center justify-center opacity-30 pointer-events-none">
@@ -159,21 +163,14 @@ export function CoinOverlay({ onCalibrationChange, isVisible, scale = 1 }: CoinO
         {/* Resize Handle (Bottom Right) */}
         <div 
            className="absolute bottom-1 right-1 p-1 bg-yellow-500 rounded-full cursor-nwse-resize hover:scale-125 transition-transform"
-           onMouseDown={(e) => {
-             e.stopPropagation();
-             handleMouseDown(e, 'resize');
-           }}
-           onTouchStart={(e) => {
-             e.stopPropagation();
-             handleTouchStart(e, 'resize');
-           }}
+           {...coinDrag.bind('resize')}
         >
           <div className="w-2 h-2 bg-black rounded-full" />
         </div>
 
         {/* Info Label */}
         <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 whitespace-nowrap bg-black/70 px-2 py-0.5 rounded text-xs font-mono">
-           {COIN_DIAMETER_MM} mm
+           {diameterMM} mm
         </div>
       </div>
     </div>
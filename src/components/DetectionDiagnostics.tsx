@@ -0,0 +1,92 @@
+import { Gauge } from 'lucide-react';
+import React, { useState } from 'react';
+import type { DetectionDiagnostics as Diagnostics } from '../hooks/useHandDetection';
+import type { DelegatePreference } from '../lib/handLandmarker';
+import { cn } from '../lib/utils';
+
+interface DetectionDiagnosticsProps {
+  delegate: DelegatePreference;
+  onDelegateChange: (delegate: DelegatePreference) => void;
+  // Null while the model is (re)loading or failed to load
+  diagnostics: Diagnostics | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const formatMs = (ms: number) => `${Math.round(ms)} ms`;
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center justify-between gap-4">
+    <span className="text-neutral-500">{label}</span>
+    <span className="text-neutral-200 tabular-nums text-right">{children}</span>
+  </div>
+);
+
+// Header button + panel: delegate setting and how the detection model is performing
+export const DetectionDiagnostics: React.FC<DetectionDiagnosticsProps> = ({
+  delegate,
+  onDelegateChange,
+  diagnostics,
+  isLoading,
+  error
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const latencies = diagnostics?.inferenceMs ?? [];
+  const average = latencies.length > 0 ? latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length : null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Detection diagnostics"
+        className={cn(
+          "p-1.5 rounded-lg border transition-all",
+          isOpen ? "bg-neutral-700 border-neutral-600 text-white" : "bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white",
+          diagnostics?.fellBack && !isOpen && "text-amber-300",
+          error && !isOpen && "text-red-300"
+        )}
+      >
+        <Gauge className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-neutral-900 border border-neutral-800 rounded-xl shadow-2xl p-4 text-sm space-y-3">
+          <h3 className="text-xs font-semibold text-neutral-400 uppercase tracking-wider">Detection</h3>
+
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-neutral-500">Delegate</span>
+            <select
+              value={delegate}
+              onChange={(e) => onDelegateChange(e.target.value as DelegatePreference)}
+              className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-sm text-neutral-200"
+            >
+              <option value="auto">Auto (GPU, CPU fallback)</option>
+              <option value="GPU">GPU only</option>
+              <option value="CPU">CPU only</option>
+            </select>
+          </label>
+
+          <div className="space-y-1.5 border-t border-neutral-800 pt-3">
+            <Row label="Active">
+              {isLoading && "Loading…"}
+              {error && <span className="text-red-300">Failed to load</span>}
+              {diagnostics && (
+                <>
+                  {diagnostics.delegate}
+                  {diagnostics.fellBack && <span className="text-amber-300"> · GPU failed</span>}
+                </>
+              )}
+            </Row>
+            <Row label="Model load">{diagnostics ? formatMs(diagnostics.loadMs) : '–'}</Row>
+            <Row label="Last inference">{latencies.length > 0 ? formatMs(latencies[0]) : '–'}</Row>
+            <Row label={`Average (${latencies.length})`}>{average != null ? formatMs(average) : '–'}</Row>
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            Inference times cover hand landmarks only, measured in the detection worker. The live camera preview uses the same delegate.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
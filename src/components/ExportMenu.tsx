@@ -0,0 +1,49 @@
+import { FileJson, FileSpreadsheet, Printer } from 'lucide-react';
+import React from 'react';
+import { downloadFile, getExportFilename, openPrintReport, toCSV, toJSON, type ExportContext } from '../lib/export';
+
+interface ExportMenuProps {
+  context: ExportContext;
+}
+
+const buttonClass = "p-1.5 rounded-lg bg-neutral-800 text-neutral-300 border border-neutral-700 hover:bg-neutral-700 hover:text-white transition-all disabled:opacity-40 disabled:pointer-events-none";
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ context }) => {
+  const isEmpty = context.measurements.length === 0;
+
+  const handlePrint = () => {
+    openPrintReport(context).catch(err => {
+      console.error("Report failed:", err);
+      alert(err instanceof Error ? err.message : "Could not open the report.");
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        className={buttonClass}
+        disabled={isEmpty}
+        title="Export CSV"
+        onClick={() => downloadFile(toCSV(context), getExportFilename('csv'), 'text/csv')}
+      >
+        <FileSpreadsheet className="w-4 h-4" />
+      </button>
+      <button
+        className={buttonClass}
+        disabled={isEmpty}
+        title="Export JSON"
+        onClick={() => downloadFile(toJSON(context), getExportFilename('json'), 'application/json')}
+      >
+        <FileJson className="w-4 h-4" />
+      </button>
+      <button
+        className={buttonClass}
+        disabled={isEmpty}
+        title="Printable report"
+        onClick={handlePrint}
+      >
+        <Printer className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
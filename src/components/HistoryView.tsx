@@ -0,0 +1,162 @@
+import { Check, FolderOpen, History, Pencil, Trash2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { useAnalysisHistory } from '../hooks/useAnalysisHistory';
+import { describeCalibration } from '../lib/calibration';
+import type { AnalysisRecord } from '../lib/historyStore';
+import { cn } from '../lib/utils';
+
+interface HistoryViewProps {
+  onOpen: (record: AnalysisRecord) => void;
+  onClose: () => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-lg bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors";
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onClose }) => {
+  const { records, isLoading, error, rename, remove } = useAnalysisHistory();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  // Failed rename/delete; loading errors come from useAnalysisHistory
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const startRename = (record: AnalysisRecord) => {
+    setEditingId(record.id);
+    setDraftName(record.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    if (name) {
+      try {
+        await rename(editingId, name);
+      } catch (err) {
+        // Keep the name box open so the rename can be retried
+        console.error("Failed to rename analysis:", err);
+        setActionError("Could not rename the analysis.");
+        return;
+      }
+    }
+    setEditingId(null);
+    setActionError(null);
+  };
+
+  const handleDelete = async (record: AnalysisRecord) => {
+    if (!confirm(`Delete "${record.name}"? This cannot be undone.`)) return;
+    try {
+      await remove(record.id);
+      if (editingId === record.id) setEditingId(null);
+      setActionError(null);
+    } catch (err) {
+      console.error("Failed to delete analysis:", err);
+      setActionError("Could not delete the analysis.");
+    }
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-4 md:p-8">
+      <div className="max-w-5xl mx-auto flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-neutral-200 flex items-center gap-3">
+            <History className="w-6 h-6 text-emerald-400" />
+            History
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {(actionError ?? error) && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-200 px-4 py-3 rounded-xl">
+            {actionError ?? error}
+          </div>
+        )}
+
+        {!isLoading && !error && records.length === 0 && (
+          <p className="text-neutral-500 text-center py-16">
+            No saved analyses yet. Every photo you analyze is stored here automatically.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {records.map(record => (
+            <div
+              key={record.id}
+              className="bg-neutral-900/50 border border-neutral-800 rounded-2xl overflow-hidden flex flex-col"
+            >
+              <button
+                onClick={() => onOpen(record)}
+                className="aspect-video bg-black overflow-hidden"
+                title="Open"
+              >
+                <img
+                  src={record.imageSrc}
+                  alt={record.name}
+                  className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+                />
+              </button>
+
+              <div className="p-4 flex flex-col gap-2">
+                {editingId === record.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-sm text-white"
+                    />
+                    <button className={iconButtonClass} onClick={commitRename} title="Save name">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button className={iconButtonClass} onClick={() => setEditingId(null)} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <h3 className="font-medium text-neutral-200 truncate" title={record.name}>
+                    {record.name}
+                  </h3>
+                )}
+
+                <p className="text-xs text-neutral-500">
+                  {new Date(record.createdAt).toLocaleString()} · {record.measurements.length} nails
+                  {' · '}
+                  {record.pixelsPerMM
+                    ? describeCalibration(record.calibrationMethod, record.calibrationDetail)
+                    : 'Uncalibrated'}
+                </p>
+
+                <div className="flex items-center gap-2 pt-1">
+                  <button
+                    onClick={() => onOpen(record)}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-neutral-800 text-neutral-300 border border-neutral-700 hover:bg-neutral-700 hover:text-white transition-all"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Open
+                  </button>
+                  <button className={iconButtonClass} onClick={() => startRename(record)} title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    className={cn(iconButtonClass, "hover:bg-red-500/20 hover:text-red-300")}
+                    onClick={() => handleDelete(record)}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,62 @@
+import { ArrowLeftRight, RotateCcw, Trash2 } from 'lucide-react';
 import React from 'react';
-import type { NailMeasurement } from '../hooks/useHandDetection';
+import type { HandSide, NailMeasurement } from '../hooks/useHandDetection';
+import type { ScaleEstimate } from '../lib/anthropometry';
+import { CALIBRATION_LABELS, isEstimatedCalibration, type CalibrationMethod } from '../lib/calibration';
+import { getFusedNail, type NailFusion } from '../lib/fusion';
+import type { Homography } from '../lib/homography';
+import { getNailDimensionsMM } from '../lib/measurement';
+import { DIGIT_ORDER, findSameNail, getNailLabel, getNailSet, groupByHand, HAND_ORDER, HAND_STYLES, isSameBox, LIMB_LABELS } from '../lib/nails';
+import { matchNailSize, type SizeChart } from '../lib/sizeCharts';
+import { CONFIDENCE_LABELS, getNailUncertainty, type ConfidenceLevel } from '../lib/uncertainty';
 import { cn } from '../lib/utils';
 
 interface MeasurementSidebarProps {
   measurements: NailMeasurement[];
   pixelsPerMM?: number;
+  homography?: Homography;
+  calibrationMethod: CalibrationMethod | null;
+  // Range of the active scale when it is an estimate
+  scaleEstimate?: ScaleEstimate;
   highlightedIndex: number | null;
   onHighlight: (index: number | null) => void;
-  imageSize: { width: number; height: number };
+  // Clicking a row brings that nail into view
+  onSelect?: (index: number) => void;
+  sizeChart: SizeChart;
+  // Fused sizes across a multi-photo session; replaces this photo's own values where present
+  fusion?: NailFusion;
+  // Boxes as detected; nails edited away from them get a "revert" button
+  detectedMeasurements?: NailMeasurement[];
+  onRevert?: (index: number) => void;
+  // Manual fixes for what detection got wrong
+  onDelete?: (index: number) => void;
+  onRelabel?: (index: number, hand: HandSide, finger: string) => void;
+  // Moves a whole hand/foot to the other side
+  onSwapSide?: (handIndex: number) => void;
 }
 
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: "bg-emerald-500/15 text-emerald-300 border-emerald-500/30",
+  medium: "bg-amber-500/15 text-amber-300 border-amber-500/30",
+  low: "bg-red-500/15 text-red-300 border-red-500/30"
+};
+
 export const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
   measurements,
   pixelsPerMM,
+  homography,
+  calibrationMethod,
+  scaleEstimate,
   highlightedIndex,
   onHighlight,
-  imageSize
+  onSelect,
+  sizeChart,
+  fusion,
+  detectedMeasurements,
+  onRevert,
+  onDelete,
+  onRelabel,
+  onSwapSide
 }) => {
   if (measurements.length === 0) return null;
 
@@ -25,63 +66,188 @@ export const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
          <h3 className="text-lg font-semibold text-white">
            Measurements
          </h3>
+         {fusion && (
+           <span className="text-xs text-neutral-500">Fused across photos</span>
+         )}
       </div>
       
-      <div className="flex flex-col gap-2">
-        {measurements.map((m, index) => {
-           let widthMM = "---";
-           let heightMM = "---";
-           
-           if (pixelsPerMM && imageSize.width > 0) {
-               const naturalWidth = imageSize.width;
-               const naturalHeight = imageSize.height;
-               
-               // Calculate real-world dimensions
-               const trueW = m.boundingBox.width * naturalWidth;
-               const trueH = m.boundingBox.height * naturalHeight;
-               
-               widthMM = (trueW / pixelsPerMM).toFixed(1);
-               heightMM = (trueH / pixelsPerMM).toFixed(1);
-           }
-           
-           return (
-             <div 
-               key={index}
-               className={cn(
-                 "p-3 rounded-lg border transition-all cursor-pointer flex items-center justify-between group",
-                 highlightedIndex === index 
-                    ? "bg-blue-500/20 border-blue-500/50 shadow-[0_0_15px_rgba(59,130,246,0.2)]" 
-                    : "bg-neutral-800/50 border-neutral-700 hover:bg-neutral-800 hover:border-neutral-600"
-               )}
-               onMouseEnter={() => onHighlight(index)}
-               onMouseLeave={() => onHighlight(null)}
-             >
-               <div className="flex items-center gap-3">
-                 <div className={cn(
-                   "w-3 h-3 rounded-full",
-                   highlightedIndex === index ? "bg-blue-400" : "bg-neutral-600 group-hover:bg-neutral-500"
-                 )} />
-                 <span className="font-medium text-neutral-200">{m.finger}</span>
-               </div>
+      <div className="flex flex-col gap-4">
+        {groupByHand(measurements).map(group => (
+          <div key={group.handIndex} className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <h4 className={cn("text-xs font-semibold uppercase tracking-wider", HAND_STYLES[group.hand].text)}>
+                {group.label}
+              </h4>
+              {onSwapSide && (
+                <button
+                  onClick={() => onSwapSide(group.handIndex)}
+                  className="p-1 rounded text-neutral-500 hover:text-white hover:bg-neutral-700 transition-colors"
+                  title={`Make this the ${group.hand === 'Left' ? 'right' : 'left'} side`}
+                >
+                  <ArrowLeftRight className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+
+            {group.nails.map(({ measurement: m, index }) => {
+               const fused = getFusedNail(fusion, measurements, m);
+               const dimensions = fused ?? getNailDimensionsMM(m, { pixelsPerMM, homography });
+               const widthMM = dimensions ? dimensions.widthMM.toFixed(1) : "---";
+               const heightMM = dimensions ? dimensions.lengthMM.toFixed(1) : "---";
+               const sizeMatch = dimensions ? matchNailSize(dimensions.widthMM, sizeChart) : null;
+               const detectedNail = detectedMeasurements && findSameNail(detectedMeasurements, m);
+               const isEdited = detectedNail !== undefined && !isSameBox(detectedNail, m);
+               const nailSet = getNailSet(m.finger);
+               // 95% range from the scale source, the box fit and (fused) the scatter between photos
+               const uncertainty = fused?.uncertainty
+                 ?? (dimensions && getNailUncertainty(m, dimensions, { calibrationMethod, scaleEstimate, detectedMeasurements }));
                
-               <div className="text-right">
-                  <div className="text-sm font-bold text-white">
-                    <span className="text-xs text-neutral-500 mr-1">W:</span>
-                    {widthMM} mm
-                  </div>
-                  <div className="text-xs text-neutral-400">
-                     <span className="text-neutral-600 mr-1">H:</span>
-                     {heightMM} mm
-                  </div>
-               </div>
-             </div>
-           );
-        })}
+               return (
+                 <div 
+                   key={index}
+                   className={cn(
+                     "p-3 rounded-lg border transition-all cursor-pointer flex items-center justify-between group",
+                     highlightedIndex === index 
+                        ? "bg-blue-500/20 border-blue-500/50 shadow-[0_0_15px_rgba(59,130,246,0.2)]" 
+                        : "bg-neutral-800/50 border-neutral-700 hover:bg-neutral-800 hover:border-neutral-600"
+                   )}
+                   onClick={() => onSelect?.(index)}
+                   onMouseEnter={() => onHighlight(index)}
+                   onMouseLeave={() => onHighlight(null)}
+                 >
+                   <div className="flex items-center gap-3">
+                     <div className={cn(
+                       "w-3 h-3 rounded-full",
+                       highlightedIndex === index ? "bg-blue-400" : HAND_STYLES[m.hand].dot
+                     )} />
+                     {onRelabel ? (
+                       // Swaps with the nail that already has the chosen label
+                       <select
+                         value={`${m.hand}:${m.finger}`}
+                         onClick={(e) => e.stopPropagation()}
+                         onChange={(e) => {
+                           const [hand, finger] = e.target.value.split(':');
+                           onRelabel(index, hand as HandSide, finger);
+                         }}
+                         className="bg-transparent font-medium text-neutral-200 rounded cursor-pointer hover:bg-neutral-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                         title={nailSet === 'feet' ? "Change toe or foot" : "Change finger or hand"}
+                       >
+                         {HAND_ORDER.map(hand => (
+                           <optgroup key={hand} label={`${hand} ${LIMB_LABELS[nailSet]}`}>
+                             {DIGIT_ORDER[nailSet].map(finger => (
+                               <option key={finger} value={`${hand}:${finger}`} className="bg-neutral-900">
+                                 {hand} {finger}
+                               </option>
+                             ))}
+                           </optgroup>
+                         ))}
+                       </select>
+                     ) : (
+                       <span className="font-medium text-neutral-200">{getNailLabel(m)}</span>
+                     )}
+                     {isEdited && onRevert && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); onRevert(index); }}
+                         className="p-1 rounded text-neutral-500 hover:text-white hover:bg-neutral-700 transition-colors"
+                         title={nailSet === 'feet' ? "Reset to template" : "Revert to detected"}
+                       >
+                         <RotateCcw className="w-3 h-3" />
+                       </button>
+                     )}
+                     {onDelete && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); onDelete(index); }}
+                         className="p-1 rounded text-neutral-600 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-400 hover:bg-neutral-700 transition-all"
+                         title="Delete this box"
+                       >
+                         <Trash2 className="w-3 h-3" />
+                       </button>
+                     )}
+                   </div>
+                   
+                   <div className="flex items-center gap-3">
+                     {sizeMatch && (
+                       <div
+                         className="flex flex-col items-center"
+                         title={sizeMatch.runnerUp
+                           ? `Between sizes ${sizeMatch.best.size} and ${sizeMatch.runnerUp.size}`
+                           : sizeMatch.outOfRange ? 'Outside the range of this chart' : undefined}
+                       >
+                         <span className={cn(
+                           "px-2 py-0.5 rounded-md text-sm font-bold tabular-nums",
+                           sizeMatch.outOfRange ? "bg-red-500/20 text-red-300" : "bg-purple-500/20 text-purple-200"
+                         )}>
+                           {sizeMatch.best.size}
+                         </span>
+                         {sizeMatch.runnerUp && (
+                           <span className="text-[10px] text-neutral-500 mt-0.5">
+                             or {sizeMatch.runnerUp.size}
+                           </span>
+                         )}
+                       </div>
+                     )}
+                     <div className="text-right">
+                        <div className="text-sm font-bold text-white">
+                          <span className="text-xs text-neutral-500 mr-1">W:</span>
+                          {widthMM}
+                          {uncertainty && (
+                            <span className="text-xs font-normal text-neutral-400 ml-1">±{uncertainty.widthMM.toFixed(1)}</span>
+                          )}
+                          {' '}mm
+                        </div>
+                        <div className="text-xs text-neutral-400">
+                           <span className="text-neutral-600 mr-1">H:</span>
+                           {heightMM}
+                           {uncertainty && (
+                             <span className="text-neutral-500 ml-1">±{uncertainty.lengthMM.toFixed(1)}</span>
+                           )}
+                           {' '}mm
+                        </div>
+                        {uncertainty && (
+                          <span
+                            className={cn("inline-block mt-1 px-1.5 rounded border text-[10px] font-medium", CONFIDENCE_STYLES[uncertainty.level])}
+                            title="Confidence of this size (95% range shown as ±)"
+                          >
+                            {CONFIDENCE_LABELS[uncertainty.level]}
+                          </span>
+                        )}
+                        {fused && (
+                          <div
+                            className="text-[10px] text-neutral-500"
+                            title={`Spread across photos: ±${fused.widthSpreadMM.toFixed(1)} × ${fused.lengthSpreadMM.toFixed(1)} mm`
+                              + (fused.rejectedCount > 0 ? ` · ${fused.rejectedCount} photo(s) rejected as outliers` : '')
+                              + (fused.duplicateCount > 0 ? ` · ${fused.duplicateCount} photo(s) skipped for having this nail twice` : '')}
+                          >
+                            {fused.photoCount} {fused.photoCount === 1 ? 'photo' : 'photos'}
+                            {fused.rejectedCount > 0 && <span className="text-amber-400/80"> · {fused.rejectedCount} outlier</span>}
+                          </div>
+                        )}
+                     </div>
+                   </div>
+                 </div>
+               );
+            })}
+          </div>
+        ))}
       </div>
       
       {!pixelsPerMM && (
         <div className="text-xs text-yellow-500/80 bg-yellow-500/10 p-2 rounded mt-2">
-           ⚠️ Dimensions are estimated. Use Coin Calibrate for accuracy.
+           ⚠️ Dimensions are estimated. Use Calibrate with a coin or card for accuracy.
+        </div>
+      )}
+
+      {pixelsPerMM && calibrationMethod && isEstimatedCalibration(calibrationMethod) && (
+        <div className="text-xs text-yellow-500/80 bg-yellow-500/10 p-2 rounded mt-2">
+           {scaleEstimate ? (
+             <>
+               ⚠️ {CALIBRATION_LABELS[calibrationMethod]} scale ({scaleEstimate.cueCount} cues).
+               Real sizes can be up to <span className="font-semibold text-yellow-400">±{Math.round(scaleEstimate.relativeError * 100)}%</span> off
+               (95% range). Use Calibrate with a coin or card for accuracy.
+             </>
+           ) : (
+             <>⚠️ Scale assumed from a 15 mm thumb; real sizes can differ by 20% or more. Use Calibrate with a coin or card for accuracy.</>
+           )}
         </div>
       )}
     </div>
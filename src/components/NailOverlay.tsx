@@ -1,27 +1,115 @@
-import React, { useRef, useState } from 'react';
+import { Maximize, Redo2, SquarePlus, Undo2 } from 'lucide-react';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { EditCommand } from '../hooks/useEditHistory';
 import type { NailMeasurement } from '../hooks/useHandDetection';
+import { usePointerDrag } from '../hooks/usePointerDrag';
+import { boxFromAxis, resizeBoxEdge, rotateBox, scaleBox, toPercentBox, translateBox, type BoxEdge, type ImageSize, type OrientedBox } from '../lib/boxGeometry';
+import { distance, type Point } from '../lib/geometry';
+import { applyArrowKey, getKeyboardStep, getKeyboardStepLabel, isArrowKey } from '../lib/keyboardEditing';
+import { getFreeNailSlot, getNailLabel, groupByHand, HAND_STYLES, type NailSet } from '../lib/nails';
+import type { ReferenceObject } from '../lib/referenceObjects';
 import { cn } from '../lib/utils';
+import { CardOverlay } from './CardOverlay';
+import { CardPerspectiveOverlay } from './CardPerspectiveOverlay';
 import { CoinOverlay } from './CoinOverlay';
 
 interface NailOverlayProps {
   imageSrc: string;
+  // Natural size of the photo; nail boxes are in its pixels
+  imageSize: ImageSize;
   measurements: NailMeasurement[];
   onMeasurementsChange: (measurements: NailMeasurement[]) => void;
   highlightedIndex?: number | null;
   onHighlight?: (index: number | null) => void;
   pixelsPerMM?: number;
-  showCoinTool: boolean;
+  showCalibrationTool: boolean;
+  referenceObject: ReferenceObject;
   onCalibrationChange: (pixelsPerMM: number) => void;
+  // Card references can be calibrated by their four corners instead (corrects camera tilt)
+  perspectiveMode?: boolean;
+  onCardCornersChange?: (corners: Point[]) => void;
+  // Set by the parent when those corners can't be calibrated from
+  cardCornersRejected?: boolean;
+  // Undo/redo of box edits; the history itself is kept by the parent
+  onEditComplete?: (command: EditCommand) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  // Delete key on the selected nail; the parent removes it and records the edit
+  onDeleteNail?: (index: number) => void;
+  // Which digits drawn boxes are labelled with
+  nailSet?: NailSet;
+  ref?: React.Ref<NailOverlayHandle>;
 }
 
+// Lets the sidebar drive the view
+export interface NailOverlayHandle {
+  // Animates the view to frame one nail and highlights it
+  zoomToNail: (index: number) => void;
+}
+
+const MIN_SCALE = 0.5;
+// Zoom is always allowed up to this...
+const BASE_MAX_SCALE = 5;
+// ...and further on high-resolution photos, until one image pixel covers this many screen pixels
+const MAX_PIXEL_ZOOM = 8;
+// Zoom buttons multiply/divide the scale by this
+const BUTTON_ZOOM_FACTOR = 1.5;
+// Zoom-to-nail makes the nail's longer side this fraction of the view
+const NAIL_VIEW_FRACTION = 0.4;
+const NAIL_ANIMATION_MS = 350;
+
+// Box interactions: move, rotate, or resize by dragging one edge
+type BoxInteraction = 'drag' | 'rotate' | BoxEdge;
+
+interface BoxTarget {
+  index: number;
+  mode: BoxInteraction;
+}
+
+// History labels per interaction, e.g. "Resize Left Index"
+const EDIT_LABELS: Record<BoxInteraction, string> = {
+  drag: 'Move',
+  rotate: 'Rotate',
+  n: 'Resize',
+  s: 'Resize',
+  e: 'Resize',
+  w: 'Resize'
+};
+
+// Boxes never shrink below this fraction of the image
+const MIN_BOX_SIZE = 0.01;
+// Drawn boxes start square (like the detection heuristic); the edge handles fit them afterwards
+const NEW_NAIL_ASPECT = 1;
+// Shorter drags in draw mode are treated as a click (screen pixels)
+const MIN_DRAW_DRAG = 8;
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export const NailOverlay: React.FC<NailOverlayProps> = ({ 
   imageSrc, 
+  imageSize,
   measurements, 
   onMeasurementsChange,
   highlightedIndex,
   onHighlight,
-  showCoinTool,
-  onCalibrationChange
+  pixelsPerMM,
+  showCalibrationTool,
+  referenceObject,
+  onCalibrationChange,
+  perspectiveMode = false,
+  onCardCornersChange,
+  cardCornersRejected = false,
+  onEditComplete,
+  onUndo,
+  onRedo,
+  undoLabel = null,
+  redoLabel = null,
+  onDeleteNail,
+  nailSet = 'hands',
+  ref
 }) => {
   // Zoom and Pan State
   const [transform, setTransform] = useState({ scale: 1, x: 0, y: 0 });
@@ -29,400 +117,406 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
   const panStartRef = useRef({ x: 0, y: 0 }); // Screen coordinates
   // Store initial transform when panning starts
   const panStartTransformRef = useRef({ x: 0, y: 0 });
+  // Slower transition while the view glides to a nail (or back to fit)
+  const [isAnimating, setIsAnimating] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
-  const [activeId, setActiveId] = useState<number | null>(null);
-  // interactionMode can be 'drag', 'resize-n', 'resize-s', 'resize-e', 'resize-w'
-  const [interactionMode, setInteractionMode] = useState<string | null>(null);
-  const dragStartRef = useRef({ x: 0, y: 0 });
+  // The nail as it was when the current box interaction started
   const initialMeasurementRef = useRef<NailMeasurement | null>(null);
+  // All nails as they were when the current box interaction started (for the undo history)
+  const editStartRef = useRef<NailMeasurement[] | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
 
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    // Zoom Sensitivity
-    const scaleAmount = -e.deltaY * 0.001;
-    const newScale = Math.min(Math.max(0.5, transform.scale * (1 + scaleAmount)), 5);
-    
-    // Zoom toward center (simplified) or mouse pointer (better, but more complex math)
-    // For now, simple center zoom, as it's less prone to jumping if math is off.
-    // Ideally: P_new = P_mouse + (P_old - P_mouse) * (scale_new / scale_old)
-    
-    setTransform(prev => ({
-      ...prev,
-      scale: newScale
-    }));
+  // Keyboard editing: the highlighted nail is the selected one while the overlay has focus
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  // Held arrow keys become one history entry, committed on key release
+  const keyEditStartRef = useRef<{ label: string; index: number; before: NailMeasurement[] } | null>(null);
+  // Tab and number keys follow the sidebar order (Left before Right, Thumb to Pinky)
+  const nailOrder = groupByHand(measurements).flatMap(group => group.nails.map(nail => nail.index));
+
+  // Draw mode: dragging on the photo adds a nail box instead of panning
+  const [isDrawMode, setIsDrawMode] = useState(false);
+  const drawRef = useRef<{ pointerId: number; start: Point } | null>(null);
+  // Box being drawn, in image pixels
+  const [drawPreview, setDrawPreview] = useState<OrientedBox | null>(null);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); Ctrl+Y also redoes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo?.();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo?.();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const finishKeyEdit = () => {
+    const edit = keyEditStartRef.current;
+    keyEditStartRef.current = null;
+    if (!edit || edit.before === measurements) return;
+    const nail = measurements[edit.index];
+    onEditComplete?.({
+      label: `${edit.label} ${nail ? getNailLabel(nail) : 'nail'}`,
+      before: edit.before,
+      after: measurements
+    });
   };
 
-  const handleMouseDown = (e: React.MouseEvent, index: number | null, mode: string) => {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Ctrl/Cmd combinations are undo/redo (handled on the window)
+    if (e.ctrlKey || e.metaKey) return;
+    const position = highlightedIndex != null ? nailOrder.indexOf(highlightedIndex) : -1;
+
+    if (e.key === 'Tab') {
+      const next = position === -1 ? (e.shiftKey ? nailOrder.length - 1 : 0) : position + (e.shiftKey ? -1 : 1);
+      // Tabbing past the first/last nail leaves the overlay as usual
+      if (next < 0 || next >= nailOrder.length) {
+        onHighlight?.(null);
+        return;
+      }
+      e.preventDefault();
+      onHighlight?.(nailOrder[next]);
+      return;
+    }
+
+    // 1-9 select the nth nail, 0 the tenth
+    if (/^[0-9]$/.test(e.key)) {
+      const index = nailOrder[(Number(e.key) + 9) % 10];
+      if (index !== undefined) onHighlight?.(index);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      if (isDrawMode) setIsDrawMode(false);
+      else onHighlight?.(null);
+      return;
+    }
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && highlightedIndex != null && measurements[highlightedIndex]) {
+      e.preventDefault();
+      finishKeyEdit();
+      onDeleteNail?.(highlightedIndex);
+      return;
+    }
+
+    if (!isArrowKey(e.key) || highlightedIndex == null || !measurements[highlightedIndex]) return;
     e.preventDefault();
-    e.stopPropagation();
-    
-    if (index === null) {
-       // Background Click -> Start Pan
-       setIsPanning(true);
-       panStartRef.current = { x: e.clientX, y: e.clientY };
-       panStartTransformRef.current = { x: transform.x, y: transform.y };
-       return;
+
+    const edited = applyArrowKey(measurements[highlightedIndex], e, getKeyboardStep(pixelsPerMM));
+    if (!edited) return;
+
+    const label = e.altKey ? 'Rotate' : e.shiftKey ? 'Resize' : 'Move';
+    const current = keyEditStartRef.current;
+    if (current && (current.label !== label || current.index !== highlightedIndex)) finishKeyEdit();
+    if (!keyEditStartRef.current) {
+      keyEditStartRef.current = { label, index: highlightedIndex, before: measurements };
     }
 
-    setActiveId(index);
-    setInteractionMode(mode);
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
-    initialMeasurementRef.current = { ...measurements[index] };
+    const newMeasurements = [...measurements];
+    newMeasurements[highlightedIndex] = edited;
+    onMeasurementsChange(newMeasurements);
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (isArrowKey(e.key)) finishKeyEdit();
+  };
+
+  // Records the finished box interaction, if it changed anything
+  const finishEdit = ({ index, mode }: BoxTarget) => {
+    const before = editStartRef.current;
+    editStartRef.current = null;
+    if (!before || before === measurements) return;
+    const nail = measurements[index];
+    onEditComplete?.({
+      label: `${EDIT_LABELS[mode]} ${nail ? getNailLabel(nail) : 'nail'}`,
+      before,
+      after: measurements
+    });
+  };
+
+  // High-resolution photos get more zoom than the display size alone would allow
+  const getMaxScale = () => {
+    const img = imageRef.current;
+    if (!img || img.clientWidth === 0) return BASE_MAX_SCALE;
+    return Math.max(BASE_MAX_SCALE, (MAX_PIXEL_ZOOM * img.naturalWidth) / img.clientWidth);
+  };
+
+  const clampScale = (scale: number) => Math.min(Math.max(MIN_SCALE, scale), getMaxScale());
+
+  // Screen point relative to the center of the view (the transform origin)
+  const toViewOffset = (clientX: number, clientY: number) => {
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return { x: clientX - (rect.left + rect.width / 2), y: clientY - (rect.top + rect.height / 2) };
+  };
+
+  // Zooms keeping the content under `anchor` (a view offset) in place:
+  // P_new = P_anchor + (P_old - P_anchor) * (scale_new / scale_old)
+  const zoomAt = (getScale: (scale: number) => number, anchor: Point) => {
+    const maxScale = getMaxScale();
+    setTransform(prev => {
+      const scale = Math.min(Math.max(MIN_SCALE, getScale(prev.scale)), maxScale);
+      const ratio = scale / prev.scale;
+      return {
+        scale,
+        x: anchor.x + (prev.x - anchor.x) * ratio,
+        y: anchor.y + (prev.y - anchor.y) * ratio
+      };
+    });
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    setIsAnimating(false);
 
-    // 1. Handle Panning
-    if (isPanning) {
-       const dx = e.clientX - panStartRef.current.x;
-       const dy = e.clientY - panStartRef.current.y;
-       setTransform({
-          ...transform,
-          x: panStartTransformRef.current.x + dx,
-          y: panStartTransformRef.current.y + dy
-       });
-       return;
-    }
+    // Zoom Sensitivity
+    const scaleAmount = -e.deltaY * 0.001;
+    zoomAt(scale => scale * (1 + scaleAmount), toViewOffset(e.clientX, e.clientY));
+  };
 
-    // 2. Handle Object Dragging / Resizing / Rotating
-    if (activeId === null || !interactionMode || !containerRef.current || !initialMeasurementRef.current) return;
-    
-    const container = containerRef.current;
-    const rect = container.getBoundingClientRect(); 
-    
-    // For Rotation: We need center of the box in global screen coordinates
-    const initialM = initialMeasurementRef.current;
-    
-    // Current Scale is irrelevant for rotation math if we work in screen space
-    // Center of the box in Normalized Space (0-1)
-    const cxNorm = initialM.boundingBox.x;
-    const cyNorm = initialM.boundingBox.y;
-    
-    // Center in Screen Pixels (Relative to Container TopLeft)
-    // Container Rect includes the transform? Yes.
-    // Wait, getBoundingClientRect returns the Viewport Coordinates.
-    // Container is the DIV with `transform`.
-    // Its `left, top` relate to viewport.
-    
-    // We can just calculate angle from Mouse to Box Center.
-    // Box Center needs to be calculated in Screen Pixels.
-    // We know m.x is relative to the IMAGE inside.
-    // The Image is inside `container`. 
-    // Is `container` the wrapper or the transformed element?
-    // ref={containerRef} is on the Transformed Div `div style={{ transform... }}`.
-    // So `rect` IS the transformed, scaled, moved box on screen.
-    // The Image sits inside it and fills it.
-    // So px = rect.left + cxNorm * rect.width
-    // py = rect.top + cyNorm * rect.height
-    
-    const centerX = rect.left + cxNorm * rect.width;
-    const centerY = rect.top + cyNorm * rect.height;
-    
-    const dxPx = e.clientX - dragStartRef.current.x;
-    const dyPx = e.clientY - dragStartRef.current.y;
-    
-    const newMeasurements = [...measurements];
-    
-    if (interactionMode === 'rotate') {
-       // Vector from Center to Mouse
-       const vecX = e.clientX - centerX;
-       const vecY = e.clientY - centerY;
-       
-       // Current Angle
-       const currentAngle = Math.atan2(vecY, vecX);
-       
-       // Initial Mouse Angle (From Start of Drag)
-       const startVecX = dragStartRef.current.x - centerX;
-       const startVecY = dragStartRef.current.y - centerY;
-       const startAngle = Math.atan2(startVecY, startVecX);
-       
-       // Apply Rotation Delta
-       // New Rotation = Initial Rotation + (Current - Start)
-       const deltaRotation = currentAngle - startAngle;
-       
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           rotation: initialM.boundingBox.rotation + deltaRotation
-         }
-       };
-
-    } else if (interactionMode === 'drag') {
-       // Normalized delta
-       const dx = dxPx / rect.width;
-       const dy = dyPx / rect.height;
-       
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           x: initialM.boundingBox.x + dx,
-           y: initialM.boundingBox.y + dy
-         }
-       };
-    } else if (interactionMode.startsWith('resize')) {
-       // ... existing resize logic ...
-       const dx = dxPx / rect.width;
-       const dy = dyPx / rect.height;
-       
-       const rotation = initialM.boundingBox.rotation;
-       const cos = Math.cos(-rotation);
-       const sin = Math.sin(-rotation);
-       
-       const localDx = dx * cos - dy * sin;
-       const localDy = dx * sin + dy * cos;
-       
-       let newW = initialM.boundingBox.width;
-       let newH = initialM.boundingBox.height;
-       let shiftLocalX = 0;
-       let shiftLocalY = 0;
-
-       switch (interactionMode) {
-          case 'resize-e': 
-             newW = Math.max(0.01, initialM.boundingBox.width + localDx);
-             shiftLocalX = localDx / 2;
-             break;
-          case 'resize-w': 
-             newW = Math.max(0.01, initialM.boundingBox.width - localDx);
-             shiftLocalX = localDx / 2; 
-             break;
-          case 'resize-s': 
-             newH = Math.max(0.01, initialM.boundingBox.height + localDy);
-             shiftLocalY = localDy / 2;
-             break;
-          case 'resize-n': 
-             newH = Math.max(0.01, initialM.boundingBox.height - localDy);
-             shiftLocalY = localDy / 2;
-             break;
-       }
+  const fitToImage = () => {
+    setIsAnimating(true);
+    setTransform({ scale: 1, x: 0, y: 0 });
+  };
 
-       const globalShiftX = shiftLocalX * Math.cos(rotation) - shiftLocalY * Math.sin(rotation);
-       const globalShiftY = shiftLocalX * Math.sin(rotation) + shiftLocalY * Math.cos(rotation);
-
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           width: newW,
-           height: newH,
-           x: initialM.boundingBox.x + globalShiftX,
-           y: initialM.boundingBox.y + globalShiftY
-         }
-       };
-    }
-    
+  const zoomToNail = (index: number) => {
+    const m = measurements[index];
+    const root = rootRef.current;
+    const container = containerRef.current;
+    if (!m || !root || !container || imageSize.width === 0) return;
+
+    // Nail in untransformed layout pixels, relative to the image center
+    const box = scaleBox(m.boundingBox, container.clientWidth / imageSize.width);
+    const offsetX = box.x - container.clientWidth / 2;
+    const offsetY = box.y - container.clientHeight / 2;
+    const extent = Math.max(box.width, box.height);
+    const scale = Math.max(1, clampScale((NAIL_VIEW_FRACTION * Math.min(root.clientWidth, root.clientHeight)) / extent));
+
+    // Put the nail center on the view center
+    setIsAnimating(true);
+    setTransform({ scale, x: -scale * offsetX, y: -scale * offsetY });
+    onHighlight?.(index);
   };
 
+  useImperativeHandle(ref, () => ({ zoomToNail }));
+
+  // Box drag/resize/rotate through the shared pointer engine (mouse, touch and pen alike)
+  const boxDrag = usePointerDrag<BoxTarget>({
+    onStart: ({ index }) => {
+      // The engine's preventDefault() also suppresses focusing, which keyboard editing needs
+      rootRef.current?.focus();
+      onHighlight?.(index);
+      initialMeasurementRef.current = measurements[index];
+      editStartRef.current = measurements;
+    },
+    onMove: ({ target, start, current }) => {
+      const initialM = initialMeasurementRef.current;
+      const container = containerRef.current;
+      if (!initialM || !container || imageSize.width === 0) return;
+
+      // Edit in screen pixels of the zoomed image, measured from its top-left corner.
+      // getBoundingClientRect() includes the zoom/pan transform.
+      const rect = container.getBoundingClientRect();
+      const toScreen = rect.width / imageSize.width;
+      const from = { x: start.x - rect.left, y: start.y - rect.top };
+      const to = { x: current.x - rect.left, y: current.y - rect.top };
+      const box = scaleBox(initialM.boundingBox, toScreen);
+
+      let edited: OrientedBox;
+      if (target.mode === 'drag') {
+        edited = translateBox(box, { x: to.x - from.x, y: to.y - from.y });
+      } else if (target.mode === 'rotate') {
+        edited = rotateBox(box, from, to);
+      } else {
+        edited = resizeBoxEdge(box, target.mode, { x: to.x - from.x, y: to.y - from.y }, MIN_BOX_SIZE * Math.min(rect.width, rect.height));
+      }
+
+      const newMeasurements = [...measurements];
+      newMeasurements[target.index] = { ...initialM, boundingBox: scaleBox(edited, 1 / toScreen) };
+      onMeasurementsChange(newMeasurements);
+    },
+    onEnd: finishEdit
+  });
+  const activeId = boxDrag.activeTarget?.index ?? null;
+
   // Pinch Zoom Refs
   const pinchStartDistRef = useRef<number>(0);
-  const pinchStartScaleRef = useRef<number>(1);
-
-  // Helper for Pinch
-  const getPinchDist = (e: React.TouchEvent) => {
-     if (e.touches.length < 2) return 0;
-     const t1 = e.touches[0];
-     const t2 = e.touches[1];
-     return Math.hypot(t1.clientX - t2.clientX, t1.clientY - t2.clientY);
+  // View offset of the pinch midpoint and the transform when the pinch started
+  const pinchStartMidRef = useRef<Point>({ x: 0, y: 0 });
+  const pinchStartTransformRef = useRef(transform);
+
+  // View navigation on the background: one pointer pans, two pinch-zoom about their midpoint
+  const viewPointersRef = useRef(new Map<number, Point>());
+
+  const getPinchPoints = () => [...viewPointersRef.current.values()].slice(0, 2);
+
+  const startPan = (point: Point) => {
+    setIsPanning(true);
+    panStartRef.current = point;
+    panStartTransformRef.current = { x: transform.x, y: transform.y };
   };
 
-  // Touch Logic mirroring Mouse Logic
-  const handleTouchStart = (e: React.TouchEvent, index: number | null, mode: string) => {
-    e.stopPropagation();
-    
-    // Handle Pinch Start (2 fingers)
-    if (e.touches.length === 2) {
-       const dist = getPinchDist(e);
-       pinchStartDistRef.current = dist;
-       pinchStartScaleRef.current = transform.scale;
-       
-       // Cancel other interactions
-       setIsPanning(false);
-       setActiveId(null);
-       setInteractionMode(null);
-       return;
-    }
+  const startPinch = () => {
+    const [a, b] = getPinchPoints();
+    pinchStartDistRef.current = distance(a, b);
+    pinchStartMidRef.current = toViewOffset((a.x + b.x) / 2, (a.y + b.y) / 2);
+    pinchStartTransformRef.current = transform;
+    setIsPanning(false);
+    setIsAnimating(false);
+  };
 
-    const touch = e.touches[0];
-    
-    if (index === null) {
-       // Pan Start
-       setIsPanning(true);
-       panStartRef.current = { x: touch.clientX, y: touch.clientY };
-       panStartTransformRef.current = { x: transform.x, y: transform.y };
-       return;
+  // Client point in image pixels; the container's rect includes the zoom/pan transform
+  const toImageCoords = (clientX: number, clientY: number): Point | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return null;
+    const toImage = imageSize.width / rect.width;
+    return { x: (clientX - rect.left) * toImage, y: (clientY - rect.top) * toImage };
+  };
+
+  const updateDrawPreview = (clientX: number, clientY: number) => {
+    const draw = drawRef.current;
+    const from = draw && toImageCoords(draw.start.x, draw.start.y);
+    const to = toImageCoords(clientX, clientY);
+    if (from && to) setDrawPreview(boxFromAxis(from, to, NEW_NAIL_ASPECT));
+  };
+
+  // Adds the drawn box under the first free label; the sidebar menu relabels it
+  const finishDraw = (clientX: number, clientY: number) => {
+    const draw = drawRef.current;
+    drawRef.current = null;
+    setDrawPreview(null);
+    if (!draw || distance(draw.start, { x: clientX, y: clientY }) < MIN_DRAW_DRAG) return;
+
+    const from = toImageCoords(draw.start.x, draw.start.y);
+    const to = toImageCoords(clientX, clientY);
+    if (!from || !to) return;
+    const boundingBox = boxFromAxis(from, to, NEW_NAIL_ASPECT);
+    const nail: NailMeasurement = {
+      // Never matches a detected box, whatever it is labelled as
+      id: `manual:${crypto.randomUUID()}`,
+      ...getFreeNailSlot(measurements, nailSet),
+      handednessScore: 1,
+      width: boundingBox.width,
+      length: boundingBox.height,
+      boundingBox,
+      manual: true
+    };
+    const after = [...measurements, nail];
+    onMeasurementsChange(after);
+    onEditComplete?.({ label: `Add ${getNailLabel(nail)}`, before: measurements, after });
+    onHighlight?.(after.length - 1);
+  };
+
+  const handleViewPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    rootRef.current?.focus();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (isDrawMode) {
+      // One box at a time; other pointers are ignored while drawing
+      if (drawRef.current) return;
+      drawRef.current = { pointerId: e.pointerId, start: { x: e.clientX, y: e.clientY } };
+      updateDrawPreview(e.clientX, e.clientY);
+      return;
     }
 
-    setActiveId(index);
-    setInteractionMode(mode);
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
-    initialMeasurementRef.current = { ...measurements[index] };
+    const pointers = viewPointersRef.current;
+    const point = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, point);
+    if (pointers.size === 1) startPan(point);
+    else if (pointers.size === 2) startPinch();
   };
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    e.stopPropagation();
-    if (e.cancelable) e.preventDefault(); // Prevent scrolling
+  const handleViewPointerMove = (e: React.PointerEvent) => {
+    if (drawRef.current?.pointerId === e.pointerId) {
+      updateDrawPreview(e.clientX, e.clientY);
+      return;
+    }
+
+    const pointers = viewPointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    const point = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, point);
 
     // 1. Handle Pinch Zoom (High Priority)
-    if (e.touches.length === 2) {
-       const dist = getPinchDist(e);
+    if (pointers.size >= 2) {
+       const [a, b] = getPinchPoints();
+       const dist = distance(a, b);
        if (pinchStartDistRef.current > 0 && dist > 0) {
           const scaleRatio = dist / pinchStartDistRef.current;
-          const newScale = Math.min(Math.max(0.5, pinchStartScaleRef.current * scaleRatio), 5);
-          
-          setTransform(prev => ({
-             ...prev,
-             scale: newScale
-          }));
+          const start = pinchStartTransformRef.current;
+          const newScale = clampScale(start.scale * scaleRatio);
+
+          // The content under the starting midpoint follows the fingers' current midpoint
+          const startMid = pinchStartMidRef.current;
+          const mid = toViewOffset((a.x + b.x) / 2, (a.y + b.y) / 2);
+          const ratio = newScale / start.scale;
+          setTransform({
+             scale: newScale,
+             x: mid.x + (start.x - startMid.x) * ratio,
+             y: mid.y + (start.y - startMid.y) * ratio
+          });
        }
        return;
     }
 
-    const touch = e.touches[0];
-
     // 2. Handle Panning
     if (isPanning) {
-       const dx = touch.clientX - panStartRef.current.x;
-       const dy = touch.clientY - panStartRef.current.y;
        setTransform({
           ...transform,
-          x: panStartTransformRef.current.x + dx,
-          y: panStartTransformRef.current.y + dy
+          x: panStartTransformRef.current.x + point.x - panStartRef.current.x,
+          y: panStartTransformRef.current.y + point.y - panStartRef.current.y
        });
-       // Don't return, as we strictly handled panning logic? 
-       // Wait, if Panning, we definitely don't want to drag objects.
-       return;
     }
-
-    // 3. Handle Object Interactions
-    if (activeId === null || !interactionMode || !containerRef.current || !initialMeasurementRef.current) return;
-    
-    // ... rest of drag/resize logic ...
-    const container = containerRef.current;
-    const rect = container.getBoundingClientRect(); 
-    
-    const initialM = initialMeasurementRef.current;
-    const cxNorm = initialM.boundingBox.x;
-    const cyNorm = initialM.boundingBox.y;
-    
-    const centerX = rect.left + cxNorm * rect.width;
-    const centerY = rect.top + cyNorm * rect.height;
-    
-    const dxPx = touch.clientX - dragStartRef.current.x;
-    const dyPx = touch.clientY - dragStartRef.current.y;
-    
-    const newMeasurements = [...measurements];
-    
-    if (interactionMode === 'rotate') {
-       const vecX = touch.clientX - centerX;
-       const vecY = touch.clientY - centerY;
-       const currentAngle = Math.atan2(vecY, vecX);
-       
-       const startVecX = dragStartRef.current.x - centerX;
-       const startVecY = dragStartRef.current.y - centerY;
-       const startAngle = Math.atan2(startVecY, startVecX);
-       
-       const deltaRotation = currentAngle - startAngle;
-       
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           rotation: initialM.boundingBox.rotation + deltaRotation
-         }
-       };
-
-    } else if (interactionMode === 'drag') {
-       const dx = dxPx / rect.width;
-       const dy = dyPx / rect.height;
-       
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           x: initialM.boundingBox.x + dx,
-           y: initialM.boundingBox.y + dy
-         }
-       };
-    } else if (interactionMode.startsWith('resize')) {
-       const dx = dxPx / rect.width;
-       const dy = dyPx / rect.height;
-       
-       const rotation = initialM.boundingBox.rotation;
-       const cos = Math.cos(-rotation);
-       const sin = Math.sin(-rotation);
-       
-       const localDx = dx * cos - dy * sin;
-       const localDy = dx * sin + dy * cos;
-       
-       let newW = initialM.boundingBox.width;
-       let newH = initialM.boundingBox.height;
-       let shiftLocalX = 0;
-       let shiftLocalY = 0;
-
-       switch (interactionMode) {
-          case 'resize-e': 
-             newW = Math.max(0.01, initialM.boundingBox.width + localDx);
-             shiftLocalX = localDx / 2; break;
-          case 'resize-w': 
-             newW = Math.max(0.01, initialM.boundingBox.width - localDx);
-             shiftLocalX = localDx / 2; break;
-          case 'resize-s': 
-             newH = Math.max(0.01, initialM.boundingBox.height + localDy);
-             shiftLocalY = localDy / 2; break;
-          case 'resize-n': 
-             newH = Math.max(0.01, initialM.boundingBox.height - localDy);
-             shiftLocalY = localDy / 2; break;
-       }
-
-       const globalShiftX = shiftLocalX * Math.cos(rotation) - shiftLocalY * Math.sin(rotation);
-       const globalShiftY = shiftLocalX * Math.sin(rotation) + shiftLocalY * Math.cos(rotation);
-
-       newMeasurements[activeId] = {
-         ...initialM,
-         boundingBox: {
-           ...initialM.boundingBox,
-           width: newW,
-           height: newH,
-           x: initialM.boundingBox.x + globalShiftX,
-           y: initialM.boundingBox.y + globalShiftY
-         }
-       };
-    }
-    
-    onMeasurementsChange(newMeasurements);
   };
 
+  const handleViewPointerUp = (e: React.PointerEvent) => {
+    if (drawRef.current?.pointerId === e.pointerId) {
+      if (e.type === 'pointercancel') {
+        drawRef.current = null;
+        setDrawPreview(null);
+      } else {
+        finishDraw(e.clientX, e.clientY);
+      }
+      return;
+    }
 
-  const handleTouchEnd = () => {
-    setIsPanning(false);
-    setActiveId(null);
-    setInteractionMode(null);
-  };
-
-  const handleMouseUp = () => {
-    setIsPanning(false);
-    setActiveId(null);
-    setInteractionMode(null);
+    const pointers = viewPointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+    // Lifting one finger of a pinch carries on panning with the other
+    const [remaining] = pointers.values();
+    if (remaining) startPan(remaining);
+    else setIsPanning(false);
   };
 
   return (
     <div 
-      className="relative w-full h-full min-h-[500px] overflow-hidden bg-neutral-900/50 rounded-xl cursor-grab active:cursor-grabbing border border-neutral-800 touch-none"
+      ref={rootRef}
+      tabIndex={0}
+      aria-label="Nail boxes. Tab or 1-9 select a nail, arrows move it, Shift+arrows resize, Alt+arrows rotate, Delete removes it."
+      className={cn(
+        "relative w-full h-full min-h-[500px] overflow-hidden bg-neutral-900/50 rounded-xl border border-neutral-800 touch-none outline-none focus-visible:border-blue-500/60",
+        isDrawMode ? "cursor-crosshair" : "cursor-grab active:cursor-grabbing"
+      )}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => { finishKeyEdit(); setIsFocused(false); }}
       onWheel={handleWheel}
-      onMouseDown={(e) => handleMouseDown(e, null, 'pan')}
-      onTouchStart={(e) => handleTouchStart(e, null, 'pan')}
-      onMouseMove={handleMouseMove}
-      onTouchMove={handleTouchMove}
-      onMouseUp={handleMouseUp}
-      onTouchEnd={handleTouchEnd}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handleViewPointerDown}
+      onPointerMove={handleViewPointerMove}
+      onPointerUp={handleViewPointerUp}
+      onPointerCancel={handleViewPointerUp}
     > 
       {/* Transformed Container */}
       <div 
@@ -430,8 +524,11 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
         style={{
           transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
           transformOrigin: 'center center',
-          transition: isPanning || activeId !== null ? 'none' : 'transform 0.1s ease-out'
+          transition: isPanning || activeId !== null
+            ? 'none'
+            : isAnimating ? `transform ${NAIL_ANIMATION_MS}ms ease-in-out` : 'transform 0.1s ease-out'
         }}
+        onTransitionEnd={(e) => { if (e.target === e.currentTarget) setIsAnimating(false); }}
         className="w-full h-full relative flex items-center justify-center transform-gpu will-change-transform"
       >
         <img 
@@ -442,30 +539,50 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
           draggable={false}
         />
         
-        <CoinOverlay 
-            isVisible={showCoinTool}
-            scale={transform.scale}
-            onCalibrationChange={onCalibrationChange}
-        />
+        {referenceObject.shape === 'circle' ? (
+          <CoinOverlay 
+              isVisible={showCalibrationTool}
+              scale={transform.scale}
+              diameterMM={referenceObject.diameterMM}
+              label={referenceObject.name}
+              imageSrc={imageSrc}
+              onCalibrationChange={onCalibrationChange}
+          />
+        ) : perspectiveMode ? (
+          <CardPerspectiveOverlay
+              isVisible={showCalibrationTool}
+              scale={transform.scale}
+              widthMM={referenceObject.widthMM}
+              heightMM={referenceObject.heightMM}
+              label={referenceObject.name}
+              imageSrc={imageSrc}
+              onCornersChange={(corners) => onCardCornersChange?.(corners)}
+              rejected={cardCornersRejected}
+          />
+        ) : (
+          <CardOverlay 
+              isVisible={showCalibrationTool}
+              scale={transform.scale}
+              widthMM={referenceObject.widthMM}
+              heightMM={referenceObject.heightMM}
+              label={referenceObject.name}
+              onCalibrationChange={onCalibrationChange}
+          />
+        )}
         
         {measurements.map((m, index) => {
-          const { x, y, width, height, rotation } = m.boundingBox;
-          const left = x * 100;
-          const top = y * 100;
-          const w = width * 100;
-          const h = height * 100;
+          const { rotation } = m.boundingBox;
           
           const isActive = activeId === index || highlightedIndex === index;
           
           return (
             <div
               key={index}
-              className="absolute group"
+              // Draw mode starts new boxes on top of existing ones too
+              className={cn("absolute group", isDrawMode && "pointer-events-none")}
+              title={getNailLabel(m)}
               style={{
-                left: `${left}%`,
-                top: `${top}%`,
-                width: `${w}%`,
-                height: `${h}%`,
+                ...toPercentBox(m.boundingBox, imageSize),
                 transform: `translate(-50%, -50%) rotate(${rotation}rad)`,
               }}
             >
@@ -473,23 +590,39 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
                <div 
                  className={cn(
                    "w-full h-full border-2 cursor-move transition-colors relative",
-                   // Default Style
-                   "border-green-400 bg-green-400/10 hover:bg-green-400/20",
+                   // Default Style (colored per hand)
+                   HAND_STYLES[m.hand].box,
                    // Active/Highlighted Style
                    isActive ? "border-yellow-400 bg-yellow-400/20 z-50" : ""
                  )}
-                 onMouseDown={(e) => handleMouseDown(e, index, 'drag')}
-                 onTouchStart={(e) => handleTouchStart(e, index, 'drag')}
+                 {...boxDrag.bind({ index, mode: 'drag' })}
                  onMouseEnter={() => onHighlight?.(index)}
-                 onMouseLeave={() => onHighlight?.(null)}
+                 // While editing with the keyboard the selection stays put when the pointer leaves
+                 onMouseLeave={() => { if (!isFocused) onHighlight?.(null); }}
                >
+                  {/* Segmented nail contour (box-relative, so it follows edits) */}
+                  {m.outline && (
+                    <svg
+                      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+                      viewBox="-0.5 -0.5 1 1"
+                      preserveAspectRatio="none"
+                    >
+                      <polygon
+                        points={m.outline.map(p => `${p.x},${p.y}`).join(' ')}
+                        fill="none"
+                        stroke={isActive ? "#facc15" : "rgba(255,255,255,0.7)"}
+                        strokeWidth={1.5}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    </svg>
+                  )}
+
                   {/* Edges - Scale Invariant Handles? */}
                   
                   {/* Top (N) */}
                   <div 
                     className="absolute top-0 left-0 right-0 h-4 -mt-2 cursor-n-resize group/handle flex justify-center items-center z-10"
-                    onMouseDown={(e) => handleMouseDown(e, index, 'resize-n')}
-                    onTouchStart={(e) => handleTouchStart(e, index, 'resize-n')}
+                    {...boxDrag.bind({ index, mode: 'n' })}
                   >
                      <div className="w-8 h-1 bg-white/80 rounded-full group-hover/handle:bg-yellow-400 transition-colors shadow-sm" />
                   </div>
@@ -497,8 +630,7 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
                   {/* Bottom (S) */}
                   <div 
                     className="absolute bottom-0 left-0 right-0 h-4 -mb-2 cursor-s-resize group/handle flex justify-center items-center z-10"
-                    onMouseDown={(e) => handleMouseDown(e, index, 'resize-s')}
-                    onTouchStart={(e) => handleTouchStart(e, index, 'resize-s')}
+                    {...boxDrag.bind({ index, mode: 's' })}
                   >
                      <div className="w-8 h-1 bg-white/80 rounded-full group-hover/handle:bg-yellow-400 transition-colors shadow-sm" />
                   </div>
@@ -506,8 +638,7 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
                   {/* Left (W) */}
                   <div 
                     className="absolute top-0 bottom-0 left-0 w-4 -ml-2 cursor-w-resize group/handle flex flex-col justify-center items-center z-10"
-                    onMouseDown={(e) => handleMouseDown(e, index, 'resize-w')}
-                    onTouchStart={(e) => handleTouchStart(e, index, 'resize-w')}
+                    {...boxDrag.bind({ index, mode: 'w' })}
                   >
                      <div className="h-8 w-1 bg-white/80 rounded-full group-hover/handle:bg-yellow-400 transition-colors shadow-sm" />
                   </div>
@@ -515,8 +646,7 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
                   {/* Right (E) */}
                   <div 
                     className="absolute top-0 bottom-0 right-0 w-4 -mr-2 cursor-e-resize group/handle flex flex-col justify-center items-center z-10"
-                    onMouseDown={(e) => handleMouseDown(e, index, 'resize-e')}
-                    onTouchStart={(e) => handleTouchStart(e, index, 'resize-e')}
+                    {...boxDrag.bind({ index, mode: 'e' })}
                   >
                      <div className="h-8 w-1 bg-white/80 rounded-full group-hover/handle:bg-yellow-400 transition-colors shadow-sm" />
                   </div>
@@ -524,8 +654,7 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
                   {/* Rotate Handle */}
                   <div 
                      className="absolute -top-8 left-1/2 -ml-0.5 w-1 h-8 bg-white/50 z-10 group/rotate"
-                     onMouseDown={(e) => handleMouseDown(e, index, 'rotate')}
-                     onTouchStart={(e) => handleTouchStart(e, index, 'rotate')}
+                     {...boxDrag.bind({ index, mode: 'rotate' })}
                   >
                      <div className="absolute top-0 left-1/2 -ml-1.5 -mt-1.5 w-3 h-3 bg-white rounded-full border border-neutral-500 shadow-md cursor-grab group-active/rotate:cursor-grabbing hover:bg-yellow-400" />
                   </div>
@@ -535,13 +664,66 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
             </div>
           );
         })}
+
+        {/* Box being drawn */}
+        {drawPreview && (
+          <div
+            className="absolute border-2 border-dashed border-yellow-400 bg-yellow-400/10 pointer-events-none"
+            style={{
+              ...toPercentBox(drawPreview, imageSize),
+              transform: `translate(-50%, -50%) rotate(${drawPreview.rotation}rad)`,
+            }}
+          />
+        )}
       </div>
       
-      {/* Zoom Controls Overlay */}
-      <div className="absolute bottom-4 right-4 flex gap-2 z-50">
+      {isDrawMode && (
+        <div className="absolute bottom-4 left-4 z-50 px-3 py-2 bg-neutral-900/80 backdrop-blur rounded-lg border border-blue-500/50 text-xs text-neutral-400 pointer-events-none">
+          <span className="font-medium text-blue-300">Add nail</span>
+          {' · '}Drag from the base of a nail to its tip · Esc to finish
+        </div>
+      )}
+
+      {/* Keyboard editing hint for the selected nail */}
+      {!isDrawMode && isFocused && highlightedIndex != null && measurements[highlightedIndex] && (
+        <div className="absolute bottom-4 left-4 z-50 px-3 py-2 bg-neutral-900/80 backdrop-blur rounded-lg border border-neutral-800 text-xs text-neutral-400 pointer-events-none">
+          <span className="font-medium text-neutral-200">{getNailLabel(measurements[highlightedIndex])}</span>
+          {' · '}Arrows move · Shift resize · Alt rotate · {getKeyboardStepLabel(pixelsPerMM)} steps · Del remove
+        </div>
+      )}
+
+      {/* Zoom Controls Overlay (buttons don't start a pan or a drawn box) */}
+      <div className="absolute bottom-4 right-4 flex gap-2 z-50" onPointerDown={(e) => e.stopPropagation()}>
+        <button
+           className={cn(
+             "p-2 backdrop-blur text-white rounded-lg border",
+             isDrawMode ? "bg-blue-600 border-blue-500 hover:bg-blue-500" : "bg-neutral-800/80 border-neutral-700 hover:bg-neutral-700"
+           )}
+           onClick={(e) => { e.stopPropagation(); setIsDrawMode(!isDrawMode); }}
+           title={isDrawMode ? 'Stop adding nails (Esc)' : 'Add a nail box the detection missed'}
+           aria-pressed={isDrawMode}
+        >
+          <SquarePlus className="w-4 h-4" />
+        </button>
+        <button 
+           className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800/80"
+           onClick={(e) => { e.stopPropagation(); onUndo?.(); }}
+           disabled={!undoLabel}
+           title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button 
+           className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800/80"
+           onClick={(e) => { e.stopPropagation(); onRedo?.(); }}
+           disabled={!redoLabel}
+           title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
         <button 
            className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700"
-           onClick={(e) => { e.stopPropagation(); setTransform(t => ({ ...t, scale: Math.max(0.5, t.scale - 0.5) })); }}
+           onClick={(e) => { e.stopPropagation(); zoomAt(scale => scale / BUTTON_ZOOM_FACTOR, { x: 0, y: 0 }); }}
         >
           -
         </button>
@@ -550,15 +732,17 @@ export const NailOverlay: React.FC<NailOverlayProps> = ({
         </span>
         <button 
            className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700"
-           onClick={(e) => { e.stopPropagation(); setTransform(t => ({ ...t, scale: Math.min(5, t.scale + 0.5) })); }}
+           onClick={(e) => { e.stopPropagation(); zoomAt(scale => scale * BUTTON_ZOOM_FACTOR, { x: 0, y: 0 }); }}
         >
           +
         </button>
         <button 
-           className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700 text-xs"
-           onClick={(e) => { e.stopPropagation(); setTransform({ scale: 1, x: 0, y: 0 }); }}
+           className="p-2 bg-neutral-800/80 backdrop-blur text-white rounded-lg hover:bg-neutral-700 border border-neutral-700 text-xs flex items-center gap-1"
+           onClick={(e) => { e.stopPropagation(); fitToImage(); }}
+           title="Fit image to view"
         >
-          Reset
+          <Maximize className="w-3 h-3" />
+          Fit
         </button>
       </div>
     </div>
@@ -0,0 +1,80 @@
+import { Camera, Upload, X } from 'lucide-react';
+import React from 'react';
+import { isMeasuredCalibration } from '../lib/calibration';
+import type { SessionPhoto } from '../lib/historyStore';
+import { cn } from '../lib/utils';
+
+interface PhotoStripProps {
+  photos: SessionPhoto[];
+  activePhotoId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAddFromCamera: () => void;
+  onAddFromUpload: () => void;
+}
+
+const addButtonClass = "w-14 h-14 shrink-0 rounded-lg border border-dashed border-neutral-700 text-neutral-500 hover:text-white hover:border-neutral-500 flex flex-col items-center justify-center gap-0.5 text-[10px] transition-colors";
+
+// Photos of the current session; each one keeps its own detection and calibration
+export const PhotoStrip: React.FC<PhotoStripProps> = ({
+  photos,
+  activePhotoId,
+  onSelect,
+  onRemove,
+  onAddFromCamera,
+  onAddFromUpload
+}) => {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-neutral-400">
+          Photos ({photos.length})
+        </h4>
+        {photos.length === 1 && (
+          <span className="text-[10px] text-neutral-500">Add more to average out noise</span>
+        )}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {photos.map((photo, index) => (
+          <div key={photo.id} className="relative shrink-0 group">
+            <button
+              onClick={() => onSelect(photo.id)}
+              title={`Photo ${index + 1}`}
+              className={cn(
+                "w-14 h-14 rounded-lg overflow-hidden border-2 transition-colors block",
+                photo.id === activePhotoId ? "border-blue-500" : "border-neutral-800 hover:border-neutral-600"
+              )}
+            >
+              <img src={photo.imageSrc} alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+            </button>
+            {/* Reference-calibrated photos are marked, since they outweigh thumb estimates */}
+            {photo.pixelsPerMM && isMeasuredCalibration(photo.calibrationMethod) && (
+              <span className="absolute bottom-1 left-1 text-[9px] leading-none px-1 py-0.5 rounded bg-yellow-500 text-black font-bold pointer-events-none">
+                📏
+              </span>
+            )}
+            {photos.length > 1 && (
+              <button
+                onClick={() => onRemove(photo.id)}
+                title="Remove photo"
+                className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-red-300 hover:border-red-500/50 items-center justify-center hidden group-hover:flex"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        <button onClick={onAddFromCamera} className={addButtonClass} title="Add a photo from the camera">
+          <Camera className="w-4 h-4" />
+          Camera
+        </button>
+        <button onClick={onAddFromUpload} className={addButtonClass} title="Add a photo from the gallery">
+          <Upload className="w-4 h-4" />
+          Upload
+        </button>
+      </div>
+    </div>
+  );
+};
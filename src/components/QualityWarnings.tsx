@@ -0,0 +1,31 @@
+import { RotateCcw } from 'lucide-react';
+import React from 'react';
+import type { QualityIssue } from '../lib/captureQuality';
+
+interface QualityWarningsProps {
+  issues: QualityIssue[];
+  onRetake: () => void;
+}
+
+// Non-blocking capture problems of the photo on screen
+export const QualityWarnings: React.FC<QualityWarningsProps> = ({ issues, onRetake }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="text-xs text-yellow-500/90 bg-yellow-500/10 border border-yellow-500/20 p-3 rounded-xl flex flex-col gap-2">
+      <p className="font-semibold">⚠️ Photo quality</p>
+      <ul className="flex flex-col gap-1 list-disc pl-4">
+        {issues.map(issue => (
+          <li key={issue.kind}>{issue.message}</li>
+        ))}
+      </ul>
+      <button
+        onClick={onRetake}
+        className="self-start flex items-center gap-1.5 px-2 py-1 rounded-md bg-yellow-500/20 text-yellow-200 hover:bg-yellow-500/30 transition-colors"
+      >
+        <RotateCcw className="w-3 h-3" />
+        Retake photo
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { CUSTOM_REFERENCE_ID, REFERENCE_OBJECTS, type ReferenceObject } from '../lib/referenceObjects';
+
+interface ReferenceObjectPickerProps {
+  referenceObject: ReferenceObject;
+  customObject: ReferenceObject;
+  onSelect: (id: string) => void;
+  onCustomChange: (object: ReferenceObject) => void;
+}
+
+const groups = [...new Set(REFERENCE_OBJECTS.map(o => o.group))];
+
+const inputClass = "w-16 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-sm text-white tabular-nums";
+
+export const ReferenceObjectPicker: React.FC<ReferenceObjectPickerProps> = ({
+  referenceObject,
+  customObject,
+  onSelect,
+  onCustomChange
+}) => {
+  const isCustom = referenceObject.id === CUSTOM_REFERENCE_ID;
+
+  // Ignore empty / non-positive input while the user is typing
+  const parseMM = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : fallback;
+  };
+
+  const setCustomShape = (shape: ReferenceObject['shape']) => {
+    if (shape === customObject.shape) return;
+    onCustomChange(shape === 'circle'
+      ? { ...customObject, shape, diameterMM: 25 }
+      : { ...customObject, shape, widthMM: 85.6, heightMM: 53.98 });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={referenceObject.id}
+        onChange={(e) => onSelect(e.target.value)}
+        className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-sm text-neutral-200 max-w-48"
+        title="Reference object"
+      >
+        {groups.map(group => (
+          <optgroup key={group} label={group}>
+            {REFERENCE_OBJECTS.filter(o => o.group === group).map(object => (
+              <option key={object.id} value={object.id}>{object.name}</option>
+            ))}
+          </optgroup>
+        ))}
+        <option value={CUSTOM_REFERENCE_ID}>Custom object…</option>
+      </select>
+
+      {isCustom && (
+        <>
+          <select
+            value={customObject.shape}
+            onChange={(e) => setCustomShape(e.target.value as ReferenceObject['shape'])}
+            className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-sm text-neutral-200"
+          >
+            <option value="circle">Circle</option>
+            <option value="rect">Rectangle</option>
+          </select>
+
+          {customObject.shape === 'circle' ? (
+            <label key="circle" className="flex items-center gap-1 text-xs text-neutral-400">
+              Ø
+              <input
+                type="number" min="1" step="0.01"
+                defaultValue={customObject.diameterMM}
+                onChange={(e) => onCustomChange({ ...customObject, diameterMM: parseMM(e.target.value, customObject.diameterMM) })}
+                className={inputClass}
+              />
+              mm
+            </label>
+          ) : (
+            <label key="rect" className="flex items-center gap-1 text-xs text-neutral-400">
+              <input
+                type="number" min="1" step="0.01"
+                defaultValue={customObject.widthMM}
+                onChange={(e) => onCustomChange({ ...customObject, widthMM: parseMM(e.target.value, customObject.widthMM) })}
+                className={inputClass}
+              />
+              ×
+              <input
+                type="number" min="1" step="0.01"
+                defaultValue={customObject.heightMM}
+                onChange={(e) => onCustomChange({ ...customObject, heightMM: parseMM(e.target.value, customObject.heightMM) })}
+                className={inputClass}
+              />
+              mm
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
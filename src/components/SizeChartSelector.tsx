@@ -0,0 +1,83 @@
+import { FileUp, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import type { SizeChart } from '../lib/sizeCharts';
+
+interface SizeChartSelectorProps {
+  charts: SizeChart[];
+  selectedChart: SizeChart;
+  onSelect: (id: string) => void;
+  onImport: (file: File) => Promise<void>;
+  onRemove: (id: string) => void;
+}
+
+export const SizeChartSelector: React.FC<SizeChartSelectorProps> = ({
+  charts,
+  selectedChart,
+  onSelect,
+  onImport,
+  onRemove
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const onInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await onImport(file);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Could not import size chart.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-xs font-semibold uppercase tracking-wider text-neutral-500">
+        Size Chart
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedChart.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-sm text-neutral-200"
+        >
+          {charts.map(chart => (
+            <option key={chart.id} value={chart.id}>{chart.name}</option>
+          ))}
+        </select>
+
+        <label
+          className="relative p-1.5 rounded-lg bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white cursor-pointer"
+          title="Import JSON size chart"
+        >
+          <FileUp className="w-4 h-4" />
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            onChange={onInputChange}
+          />
+        </label>
+
+        {!selectedChart.builtIn && (
+          <button
+            onClick={() => onRemove(selectedChart.id)}
+            className="p-1.5 rounded-lg bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-red-500/20 hover:text-red-300"
+            title="Remove this chart"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {importError && (
+        <div className="text-xs text-red-300 bg-red-500/10 p-2 rounded">
+          {importError}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { TimelinePoint } from '../lib/clientTimeline';
+
+interface TimelineChartProps {
+  title: string;
+  points: TimelinePoint[];
+}
+
+const WIDTH = 280;
+const HEIGHT = 120;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 30 };
+
+const SERIES = [
+  { key: 'widthMM', label: 'Width', color: '#c084fc' },
+  { key: 'lengthMM', label: 'Length', color: '#38bdf8' },
+] as const;
+
+// Small multiple: width and length of one nail across visits
+export const TimelineChart: React.FC<TimelineChartProps> = ({ title, points }) => {
+  const values = points.flatMap(p => [p.widthMM, p.lengthMM]);
+  // Pad the value range so a flat series doesn't sit on the frame
+  const minValue = Math.floor(Math.min(...values) - 0.5);
+  const maxValue = Math.ceil(Math.max(...values) + 0.5);
+  const firstDate = points[0]?.date ?? 0;
+  const lastDate = points[points.length - 1]?.date ?? 0;
+
+  const plotW = WIDTH - PADDING.left - PADDING.right;
+  const plotH = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const xOf = (date: number) =>
+    PADDING.left + (lastDate === firstDate ? plotW / 2 : ((date - firstDate) / (lastDate - firstDate)) * plotW);
+  const yOf = (value: number) =>
+    PADDING.top + plotH - ((value - minValue) / (maxValue - minValue)) * plotH;
+
+  return (
+    <div className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-neutral-200">{title}</h4>
+        <div className="flex gap-2 text-[10px] text-neutral-500">
+          {SERIES.map(series => (
+            <span key={series.key} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ background: series.color }} />
+              {series.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {/* Value axis */}
+        {[minValue, maxValue].map(value => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yOf(value)} y2={yOf(value)} stroke="#262626" />
+            <text x={PADDING.left - 4} y={yOf(value) + 3} textAnchor="end" fontSize="9" fill="#737373">{value}</text>
+          </g>
+        ))}
+
+        {/* Date axis */}
+        <text x={PADDING.left} y={HEIGHT - 4} fontSize="9" fill="#737373">
+          {new Date(firstDate).toLocaleDateString()}
+        </text>
+        {lastDate !== firstDate && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#737373">
+            {new Date(lastDate).toLocaleDateString()}
+          </text>
+        )}
+
+        {SERIES.map(series => (
+          <g key={series.key}>
+            <polyline
+              fill="none"
+              stroke={series.color}
+              strokeWidth="1.5"
+              points={points.map(p => `${xOf(p.date)},${yOf(p[series.key])}`).join(' ')}
+            />
+            {points.map(p => (
+              // Hollow dots mark visits whose scale was only estimated
+              <circle
+                key={p.analysisId}
+                cx={xOf(p.date)}
+                cy={yOf(p[series.key])}
+                r="2.5"
+                fill={p.estimated ? '#0a0a0a' : series.color}
+                stroke={series.color}
+              >
+                <title>{`${new Date(p.date).toLocaleDateString()}: ${p[series.key].toFixed(1)} mm${p.estimated ? ' (estimated)' : ''}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteAnalysis, listAnalyses, renameAnalysis, type AnalysisRecord } from '../lib/historyStore';
+
+export const useAnalysisHistory = () => {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listAnalyses());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load history:", err);
+      setError("Could not load saved analyses.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(result => setRecords(result))
+      .catch(err => {
+        console.error("Failed to load history:", err);
+        setError("Could not load saved analyses.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    await renameAnalysis(id, name);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteAnalysis(id);
+    await refresh();
+  }, [refresh]);
+
+  return { records, isLoading, error, rename, remove };
+};
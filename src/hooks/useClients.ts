@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteClient, listClients, saveClient, type ClientProfile } from '../lib/historyStore';
+
+export const useClients = () => {
+  const [clients, setClients] = useState<ClientProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setClients(await listClients());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load clients:", err);
+      setError("Could not load client profiles.");
+    }
+  }, []);
+
+  useEffect(() => {
+    listClients()
+      .then(result => setClients(result))
+      .catch(err => {
+        console.error("Failed to load clients:", err);
+        setError("Could not load client profiles.");
+      });
+  }, []);
+
+  const createClient = useCallback(async (name: string): Promise<ClientProfile> => {
+    const client: ClientProfile = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now() };
+    await saveClient(client);
+    await refresh();
+    return client;
+  }, [refresh]);
+
+  const renameClient = useCallback(async (client: ClientProfile, name: string) => {
+    await saveClient({ ...client, name: name.trim() });
+    await refresh();
+  }, [refresh]);
+
+  const removeClient = useCallback(async (id: string) => {
+    await deleteClient(id);
+    await refresh();
+  }, [refresh]);
+
+  return { clients, error, createClient, renameClient, removeClient };
+};
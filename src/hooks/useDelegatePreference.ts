@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { DelegatePreference } from '../lib/handLandmarker';
+
+const STORAGE_KEY = 'nailmetrics.delegate';
+
+const DELEGATE_PREFERENCES: DelegatePreference[] = ['auto', 'GPU', 'CPU'];
+
+const loadPreference = (): DelegatePreference => {
+  const stored = localStorage.getItem(STORAGE_KEY) as DelegatePreference | null;
+  return stored && DELEGATE_PREFERENCES.includes(stored) ? stored : 'auto';
+};
+
+// Which MediaPipe delegate to run hand detection on, remembered across visits
+export const useDelegatePreference = () => {
+  const [delegate, setDelegate] = useState<DelegatePreference>(loadPreference);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, delegate);
+  }, [delegate]);
+
+  return { delegate, setDelegate };
+};
@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+import type { NailMeasurement } from './useHandDetection';
+
+// One undoable box edit: the photo's nails before and after it
+export interface EditCommand {
+  label: string;
+  before: NailMeasurement[];
+  after: NailMeasurement[];
+}
+
+interface EditStacks {
+  undo: EditCommand[];
+  redo: EditCommand[];
+}
+
+// Oldest edits are dropped beyond this
+const MAX_HISTORY = 100;
+const EMPTY_STACKS: EditStacks = { undo: [], redo: [] };
+
+// Undo/redo of nail box edits, kept separately for each photo of the session.
+// `undo`/`redo` return the nails to show; the caller applies them.
+export const useEditHistory = (photoId: string | null) => {
+  const [stacksByPhoto, setStacksByPhoto] = useState<Record<string, EditStacks>>({});
+  const stacks = (photoId && stacksByPhoto[photoId]) || EMPTY_STACKS;
+
+  const setStacks = useCallback((id: string, next: EditStacks) => {
+    setStacksByPhoto(prev => ({ ...prev, [id]: next }));
+  }, []);
+
+  const record = (command: EditCommand) => {
+    if (!photoId) return;
+    // A new edit invalidates everything that was undone
+    setStacks(photoId, { undo: [...stacks.undo, command].slice(-MAX_HISTORY), redo: [] });
+  };
+
+  const undo = (): NailMeasurement[] | null => {
+    const command = stacks.undo[stacks.undo.length - 1];
+    if (!photoId || !command) return null;
+    setStacks(photoId, { undo: stacks.undo.slice(0, -1), redo: [...stacks.redo, command] });
+    return command.before;
+  };
+
+  const redo = (): NailMeasurement[] | null => {
+    const command = stacks.redo[stacks.redo.length - 1];
+    if (!photoId || !command) return null;
+    setStacks(photoId, { undo: [...stacks.undo, command], redo: stacks.redo.slice(0, -1) });
+    return command.after;
+  };
+
+  const clear = useCallback(() => setStacksByPhoto({}), []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label ?? null,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label ?? null
+  };
+};
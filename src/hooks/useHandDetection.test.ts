@@ -0,0 +1,66 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { describe, expect, it } from 'vitest';
+import type { ImageSize } from '../lib/boxGeometry';
+import { estimateNailBounds } from './useHandDetection';
+
+const HAND = { hand: 'Left' as const, handednessScore: 0.9, handIndex: 0 };
+
+// A hand whose fingers all point the same way in image pixels: each DIP sits
+// `phalanxPx` pixels from its tip along `direction` (tip -> DIP).
+const makeHand = (size: ImageSize, direction: { x: number; y: number }, phalanxPx: number): NormalizedLandmark[] => {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 1 }));
+  const tips = [4, 8, 12, 16, 20];
+  tips.forEach((tip, i) => {
+    const tipPx = { x: 200 + i * 100, y: 200 };
+    landmarks[tip] = { x: tipPx.x / size.width, y: tipPx.y / size.height, z: 0, visibility: 1 };
+    landmarks[tip - 1] = {
+      x: (tipPx.x + direction.x * phalanxPx) / size.width,
+      y: (tipPx.y + direction.y * phalanxPx) / size.height,
+      z: 0,
+      visibility: 1
+    };
+  });
+  return landmarks;
+};
+
+describe('estimateNailBounds', () => {
+  describe.each([
+    ['portrait', { width: 800, height: 1200 }],
+    ['landscape', { width: 1200, height: 800 }]
+  ])('%s photo', (_, size) => {
+    it('sizes boxes from the phalanx length in image pixels', () => {
+      const nails = estimateNailBounds(makeHand(size, { x: 0, y: 1 }, 50), HAND, size);
+      expect(nails.map(n => n.finger)).toEqual(['Thumb', 'Index', 'Middle', 'Ring', 'Pinky']);
+      nails.forEach(nail => {
+        expect(nail.phalanxLength).toBeCloseTo(50);
+        expect(nail.boundingBox.height).toBeCloseTo(nail.finger === 'Thumb' ? 35 : 42.5);
+        expect(nail.boundingBox.width).toBeCloseTo(nail.finger === 'Thumb' ? 42 : 42.5);
+        expect(nail.width).toBe(nail.boundingBox.width);
+        expect(nail.length).toBe(nail.boundingBox.height);
+        expect(nail).toMatchObject(HAND);
+      });
+    });
+
+    it('points an upright finger straight up and centers the box just inside the tip', () => {
+      const [, index] = estimateNailBounds(makeHand(size, { x: 0, y: 1 }, 50), HAND, size);
+      expect(index.boundingBox.rotation).toBeCloseTo(0);
+      expect(index.boundingBox.x).toBeCloseTo(300);
+      // 0.1 of the nail length from the tip towards the DIP
+      expect(index.boundingBox.y).toBeCloseTo(200 + 0.1 * 42.5);
+    });
+
+    it('follows a diagonal finger at its true pixel angle', () => {
+      // 45° in pixels is a different angle in normalized coordinates on a non-square photo
+      const diagonal = { x: Math.SQRT1_2, y: Math.SQRT1_2 };
+      const [, index] = estimateNailBounds(makeHand(size, diagonal, 50), HAND, size);
+      expect(index.boundingBox.rotation).toBeCloseTo(-Math.PI / 4);
+      expect(index.phalanxLength).toBeCloseTo(50);
+    });
+  });
+
+  it('gives every nail a stable id from its hand and finger', () => {
+    const size = { width: 1000, height: 1000 };
+    const nails = estimateNailBounds(makeHand(size, { x: 0, y: 1 }, 40), { ...HAND, handIndex: 1 }, size);
+    expect(nails.map(n => n.id)).toEqual(['1:Thumb', '1:Index', '1:Middle', '1:Ring', '1:Pinky']);
+  });
+});
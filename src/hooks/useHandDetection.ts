@@ -1,166 +1,257 @@
-import { FilesetResolver, HandLandmarker, type HandLandmarkerResult, type NormalizedLandmark } from '@mediapipe/tasks-vision';
-import { useCallback, useEffect, useState } from 'react';
+import type { Category, HandLandmarkerResult, Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toImagePoint, type ImageSize, type OrientedBox } from '../lib/boxGeometry';
+import type { Point } from '../lib/geometry';
+import type { DelegatePreference } from '../lib/handLandmarker';
+import { createLandmarkerWorker, isAbortError, type LandmarkerLoadInfo, type LandmarkerWorker } from '../lib/landmarkerWorker';
+
+export type HandSide = 'Left' | 'Right';
 
 export interface NailMeasurement {
+  // Set once where the box was detected (or templated) and kept through relabels,
+  // so an edited nail still finds its original box. Older records have none.
+  id?: string;
   finger: string;
+  hand: HandSide;
+  // Confidence of the Left/Right classification (0-1)
+  handednessScore: number;
+  // Index of the detected hand this nail belongs to (order returned by MediaPipe)
+  handIndex: number;
+  // Nail size and box in pixels of the analyzed image (see the conversion layer in boxGeometry)
   width: number;
   length: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    rotation: number;
-  };
+  boundingBox: OrientedBox;
+  // Tip–DIP (thumb: Tip–IP) landmark distance in image pixels, a hand-size cue for scale estimation
+  phalanxLength?: number;
+  // Segmented nail contour in the box's own frame: fractions of its width/height
+  // around the center (-0.5..0.5), so it follows the box when it is edited
+  outline?: Point[];
+  // Drawn by the user where detection missed the nail
+  manual?: boolean;
 }
 
 export interface DetectionResult {
   measurements: NailMeasurement[];
   landmarks: NormalizedLandmark[][];
+  // Same landmarks in approximate meters around each hand's center
+  worldLandmarks: Landmark[][];
+  handedness: Category[][];
 }
 
-const MODEL_ASSET_PATH = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
-const WASM_PATH = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm';
+// MediaPipe labels handedness assuming a mirrored (selfie) image.
+// Our inputs are un-mirrored (back camera / gallery photos), so the label is flipped.
+const resolveHandSide = (category: Category | undefined): HandSide => {
+  return category?.categoryName === 'Left' ? 'Right' : 'Left';
+};
 
-export const useHandDetection = () => {
-  const [landmarker, setLandmarker] = useState<HandLandmarker | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Landmark heuristic for one hand's five nail boxes (the starting point for segmentation)
+export const estimateNailBounds = (
+  landmarks: NormalizedLandmark[],
+  hand: Pick<NailMeasurement, 'hand' | 'handednessScore' | 'handIndex'>,
+  imageSize: ImageSize
+): NailMeasurement[] => {
+  // Finger indices in MediaPipe Hands:
+  // Thumb: 1-4 (Tip: 4, IP: 3)
+  // Index: 5-8 (Tip: 8, DIP: 7)
+  // Middle: 9-12 (Tip: 12, DIP: 11)
+  // Ring: 13-16 (Tip: 16, DIP: 15)
+  // Pinky: 17-20 (Tip: 20, DIP: 19)
+  
+  // Heuristic: Nail occupies the distal portion of the distal phalanx.
+  // Length: Estimation based on distance between DIP/IP joint and Tip.
+  // Width: Estimation based on assumed ratio or local width heuristic.
+  
+  // 4. Heuristic for Nail Bounding Box
+  // v4 Logic: Visual-Distal Scaling
+  // - Length: Based on Tip-DIP segment length (visual length).
+  // - Width: Derived from constant aspect ratio (Nails are roughly square).
+  // - Position: Anchored to Tip.
 
-  useEffect(() => {
-    const initLandmarker = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(WASM_PATH);
-        const handLandmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: MODEL_ASSET_PATH,
-            delegate: "GPU"
-          },
-          runningMode: "IMAGE",
-          numHands: 2
-        });
-        setLandmarker(handLandmarker);
-        setIsLoading(false);
-      } catch (err) {
-        console.error("Failed to load MediaPipe HandLandmarker:", err);
-        setError("Failed to load detection model. Please check your connection.");
-        setIsLoading(false);
-      }
-    };
+  const fingers = [
+    // Thumb: Tip(4) -> IP(3) -> MCP(2). 
+    // Wide nail (ratio > 1.0).
+    { name: 'Thumb', tip: 4, dip: 3, pip: 2, aspectRatio: 1.1, lengthRatio: 0.6 },
+    
+    // Others: Tip -> DIP -> PIP.
+    // Nails are often roughly square or slightly tall.
+    // Resetting shift to 0.5 (anchor at flesh tip).
+    // Using Tip-PIP for rotation stability.
+    { name: 'Index', tip: 8, dip: 7, pip: 6, aspectRatio: 0.95, lengthRatio: 0.6 },
+    { name: 'Middle', tip: 12, dip: 11, pip: 10, aspectRatio: 0.95, lengthRatio: 0.6 },
+    { name: 'Ring', tip: 16, dip: 15, pip: 14, aspectRatio: 0.9, lengthRatio: 0.6 },
+    { name: 'Pinky', tip: 20, dip: 19, pip: 18, aspectRatio: 0.9, lengthRatio: 0.6 },
+  ];
 
-    initLandmarker();
-  }, []);
+  return fingers.map(finger => {
+    // Landmarks are fractions of width and height; lengths and angles need square pixels
+    const tip = toImagePoint(landmarks[finger.tip], imageSize);
+    const dip = toImagePoint(landmarks[finger.dip], imageSize);
 
-  const estimateNailBounds = (landmarks: NormalizedLandmark[]): NailMeasurement[] => {
-    // Finger indices in MediaPipe Hands:
-    // Thumb: 1-4 (Tip: 4, IP: 3)
-    // Index: 5-8 (Tip: 8, DIP: 7)
-    // Middle: 9-12 (Tip: 12, DIP: 11)
-    // Ring: 13-16 (Tip: 16, DIP: 15)
-    // Pinky: 17-20 (Tip: 20, DIP: 19)
     
-    // Heuristic: Nail occupies the distal portion of the distal phalanx.
-    // Length: Estimation based on distance between DIP/IP joint and Tip.
-    // Width: Estimation based on assumed ratio or local width heuristic.
+    // 1. Calculate Phalanx Length (Tip -> DIP/IP)
+    const dxDistal = dip.x - tip.x;
+    const dyDistal = dip.y - tip.y;
+    const distalLength = Math.sqrt(dxDistal * dxDistal + dyDistal * dyDistal);
     
-    // 4. Heuristic for Nail Bounding Box
-    // v4 Logic: Visual-Distal Scaling
-    // - Length: Based on Tip-DIP segment length (visual length).
-    // - Width: Derived from constant aspect ratio (Nails are roughly square).
-    // - Position: Anchored to Tip.
-
-    const fingers = [
-      // Thumb: Tip(4) -> IP(3) -> MCP(2). 
-      // Wide nail (ratio > 1.0).
-      { name: 'Thumb', tip: 4, dip: 3, pip: 2, aspectRatio: 1.1, lengthRatio: 0.6 },
-      
-      // Others: Tip -> DIP -> PIP.
-      // Nails are often roughly square or slightly tall.
-      // Resetting shift to 0.5 (anchor at flesh tip).
-      // Using Tip-PIP for rotation stability.
-      { name: 'Index', tip: 8, dip: 7, pip: 6, aspectRatio: 0.95, lengthRatio: 0.6 },
-      { name: 'Middle', tip: 12, dip: 11, pip: 10, aspectRatio: 0.95, lengthRatio: 0.6 },
-      { name: 'Ring', tip: 16, dip: 15, pip: 14, aspectRatio: 0.9, lengthRatio: 0.6 },
-      { name: 'Pinky', tip: 20, dip: 19, pip: 18, aspectRatio: 0.9, lengthRatio: 0.6 },
-    ];
-
-    return fingers.map(finger => {
-      const tip = landmarks[finger.tip];
-      const dip = landmarks[finger.dip]; 
-
-      
-      // 1. Calculate Phalanx Length (Tip -> DIP/IP)
-      const dxDistal = dip.x - tip.x;
-      const dyDistal = dip.y - tip.y;
-      const distalLength = Math.sqrt(dxDistal * dxDistal + dyDistal * dyDistal);
-      
-      // 2. Orientation: Revert to Tip -> DIP (Distal Phalanx Axis)
-      // This is more accurate for the nail itself, even if finger is bent.
-      const fingerAngle = Math.atan2(dyDistal, dxDistal);
-      const rotation = fingerAngle - Math.PI / 2;
-
-      // 3. Dimensions: MAXIMIZE coverage
-      // User feedback suggests boxes are constantly too small.
-      // Nail often covers almost the entire visible distal segment width.
-      
-      const lengthR = finger.name === 'Thumb' ? 0.7 : 0.85;
-      const aspectR = finger.name === 'Thumb' ? 1.2 : 1.0;
-      
-      const nailLength = distalLength * lengthR;
-      const nailWidth = nailLength * aspectR;
-
-      // 4. Position: Shift closer to tip
-      // Tip -> DIP vector points "Inwards".
-      // Previous 0.4/0.5 shift placed the "Top" of the box at the Tip.
-      // But for long nails (extensions), the nail extends OUTWARDS from the tip.
-      // User images show the target box is much further "Up" (distal).
-      // Setting shift to 0.0 (or very small) centers the box ON the Tip landmark.
-      // This means the box extends 50% "Out" (Air) and 50% "In" (Flesh).
-      // This better captures long nails.
-      
-      const nx = dxDistal / distalLength;
-      const ny = dyDistal / distalLength;
-      
-      // Shift Ratio 0.1: Slightly inwards from tip center to account for pad thickness.
-      // 0.0 was potentially too far out for short nails. 0.1 is a safe compromise.
-      const shiftRatio = 0.1;
-      
-      const cx = tip.x + nx * (nailLength * shiftRatio);
-      const cy = tip.y + ny * (nailLength * shiftRatio);
-
-      return {
-        finger: finger.name,
-        width: nailWidth,
-        length: nailLength,
-        boundingBox: {
-          x: cx, 
-          y: cy, 
-          width: nailWidth,
-          height: nailLength,
-          rotation: rotation
-        }
-      };
-    });
-  };
+    // 2. Orientation: Revert to Tip -> DIP (Distal Phalanx Axis)
+    // This is more accurate for the nail itself, even if finger is bent.
+    const fingerAngle = Math.atan2(dyDistal, dxDistal);
+    const rotation = fingerAngle - Math.PI / 2;
 
-  const detect = useCallback(async (imageElement: HTMLImageElement): Promise<DetectionResult> => {
-    if (!landmarker) throw new Error("Model not loaded");
+    // 3. Dimensions: MAXIMIZE coverage
+    // User feedback suggests boxes are constantly too small.
+    // Nail often covers almost the entire visible distal segment width.
+    
+    const lengthR = finger.name === 'Thumb' ? 0.7 : 0.85;
+    const aspectR = finger.name === 'Thumb' ? 1.2 : 1.0;
+    
+    const nailLength = distalLength * lengthR;
+    const nailWidth = nailLength * aspectR;
 
-    const result: HandLandmarkerResult = landmarker.detect(imageElement);
+    // 4. Position: Shift closer to tip
+    // Tip -> DIP vector points "Inwards".
+    // Previous 0.4/0.5 shift placed the "Top" of the box at the Tip.
+    // But for long nails (extensions), the nail extends OUTWARDS from the tip.
+    // User images show the target box is much further "Up" (distal).
+    // Setting shift to 0.0 (or very small) centers the box ON the Tip landmark.
+    // This means the box extends 50% "Out" (Air) and 50% "In" (Flesh).
+    // This better captures long nails.
+    
+    const nx = dxDistal / distalLength;
+    const ny = dyDistal / distalLength;
     
-    const measurements: NailMeasurement[] = [];
+    // Shift Ratio 0.1: Slightly inwards from tip center to account for pad thickness.
+    // 0.0 was potentially too far out for short nails. 0.1 is a safe compromise.
+    const shiftRatio = 0.1;
     
-    if (result.landmarks) {
-      result.landmarks.forEach((handLandmarks: NormalizedLandmark[]) => {
-        measurements.push(...estimateNailBounds(handLandmarks));
+    const cx = tip.x + nx * (nailLength * shiftRatio);
+    const cy = tip.y + ny * (nailLength * shiftRatio);
+
+    return {
+      id: `${hand.handIndex}:${finger.name}`,
+      finger: finger.name,
+      ...hand,
+      width: nailWidth,
+      length: nailLength,
+      phalanxLength: distalLength,
+      boundingBox: {
+        x: cx, 
+        y: cy, 
+        width: nailWidth,
+        height: nailLength,
+        rotation: rotation
+      }
+    };
+  });
+};
+
+// Heuristic nail boxes for every hand in a landmarker result, in pixels of the analyzed image/frame
+export const measurementsFromResult = (
+  result: Pick<HandLandmarkerResult, 'landmarks' | 'handedness'>,
+  imageSize: ImageSize
+): NailMeasurement[] => {
+  const measurements: NailMeasurement[] = [];
+  result.landmarks?.forEach((handLandmarks: NormalizedLandmark[], handIndex: number) => {
+    const category = result.handedness?.[handIndex]?.[0];
+    measurements.push(...estimateNailBounds(handLandmarks, {
+      hand: resolveHandSide(category),
+      handednessScore: category?.score ?? 0,
+      handIndex
+    }, imageSize));
+  });
+  return measurements;
+};
+
+// Recent per-photo inference times kept for the diagnostics panel
+const MAX_LATENCY_SAMPLES = 20;
+
+export interface DetectionDiagnostics extends LandmarkerLoadInfo {
+  // Most recent first
+  inferenceMs: number[];
+}
+
+export const useHandDetection = (delegate: DelegatePreference = 'auto') => {
+  // Worker loaded for a given delegate setting; a different setting means a reload is pending
+  const [loaded, setLoaded] = useState<{ delegate: DelegatePreference; worker: LandmarkerWorker; diagnostics: DetectionDiagnostics } | null>(null);
+  const [failure, setFailure] = useState<{ delegate: DelegatePreference; message: string } | null>(null);
+  // Analysis in flight; a newer photo (or cancel) aborts it
+  const abortRef = useRef<AbortController | null>(null);
+
+  const landmarkerWorker = loaded?.delegate === delegate ? loaded.worker : null;
+  const error = failure?.delegate === delegate ? failure.message : null;
+
+  useEffect(() => {
+    const worker = createLandmarkerWorker(delegate);
+    let cancelled = false;
+    worker.ready
+      .then(info => {
+        if (cancelled) return;
+        setLoaded({ delegate, worker, diagnostics: { ...info, inferenceMs: [] } });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Failed to load MediaPipe HandLandmarker:", err);
+        setFailure({ delegate, message: "Failed to load detection model. Please reload the app." });
       });
+
+    return () => {
+      cancelled = true;
+      worker.terminate();
+    };
+  }, [delegate]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Rejects with an AbortError (see isAbortError) when a newer call or cancel() supersedes it
+  const detect = useCallback(async (imageElement: HTMLImageElement): Promise<DetectionResult> => {
+    if (!landmarkerWorker) throw new Error("Model not loaded");
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    const bitmap = await createImageBitmap(imageElement);
+    const { output: result, inferenceMs } = await landmarkerWorker.detect(bitmap, signal);
+    setLoaded(prev => prev && prev.worker === landmarkerWorker
+      ? { ...prev, diagnostics: { ...prev.diagnostics, inferenceMs: [inferenceMs, ...prev.diagnostics.inferenceMs].slice(0, MAX_LATENCY_SAMPLES) } }
+      : prev);
+    
+    const measurements = measurementsFromResult(result, {
+      width: imageElement.naturalWidth,
+      height: imageElement.naturalHeight
+    });
+
+    // The landmark heuristic only seeds the search; segment the actual nail pixels from
+    // there, in the worker too (a second bitmap, the first one went with detect)
+    let refined = measurements;
+    if (measurements.length > 0) {
+      try {
+        refined = await landmarkerWorker.segment(await createImageBitmap(imageElement), measurements, signal);
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.error("Nail segmentation failed, keeping estimated boxes:", err);
+      }
     }
+    signal.throwIfAborted();
+    if (abortRef.current === controller) abortRef.current = null;
 
     return {
-      measurements,
-      landmarks: result.landmarks
+      measurements: refined,
+      landmarks: result.landmarks,
+      worldLandmarks: result.worldLandmarks ?? [],
+      handedness: result.handedness ?? []
     };
-  }, [landmarker]);
+  }, [landmarkerWorker]);
 
-  return { detect, isLoading, error };
+  return {
+    detect,
+    cancel,
+    isLoading: !landmarkerWorker && !error,
+    error,
+    diagnostics: landmarkerWorker && loaded ? loaded.diagnostics : null
+  };
 };
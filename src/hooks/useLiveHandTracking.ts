@@ -0,0 +1,65 @@
+import type { HandLandmarker, HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { useCallback, useEffect, useState } from 'react';
+import { createHandLandmarker, type DelegatePreference } from '../lib/handLandmarker';
+import { measurementsFromResult, type NailMeasurement } from './useHandDetection';
+
+export interface LiveFrame {
+  measurements: NailMeasurement[];
+  landmarks: NormalizedLandmark[][];
+}
+
+// VIDEO-mode landmarker for the camera preview. Loaded only while `enabled`,
+// since the photo analysis keeps its own IMAGE-mode instance in a worker.
+// Stays on the main thread: frames are small and drawn right after detection.
+export const useLiveHandTracking = (enabled: boolean, delegate: DelegatePreference = 'auto') => {
+  const [landmarker, setLandmarker] = useState<HandLandmarker | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let instance: HandLandmarker | null = null;
+    createHandLandmarker("VIDEO", document.baseURI, delegate)
+      .then(({ landmarker: created }) => {
+        instance = created;
+        if (cancelled) created.close();
+        else setLandmarker(created);
+      })
+      .catch(err => {
+        console.error("Failed to load live HandLandmarker:", err);
+        if (!cancelled) setError("Live detection unavailable. You can still take photos manually.");
+      });
+
+    return () => {
+      cancelled = true;
+      instance?.close();
+      setLandmarker(null);
+      // A new delegate (or re-enabling) gets a fresh attempt
+      setError(null);
+    };
+  }, [enabled, delegate]);
+
+  // Timestamps must increase monotonically between calls (VIDEO mode tracks across frames)
+  const detectFrame = useCallback((video: HTMLVideoElement, timestamp: number): LiveFrame | null => {
+    if (!landmarker) return null;
+    let result: HandLandmarkerResult;
+    try {
+      result = landmarker.detectForVideo(video, timestamp);
+    } catch (err) {
+      // e.g. a lost GPU context: it would throw on every frame, so stop tracking
+      console.error("Live hand detection failed:", err);
+      setError("Live detection stopped. You can still take photos manually.");
+      setLandmarker(null);
+      return null;
+    }
+    const frameSize = { width: video.videoWidth, height: video.videoHeight };
+    return { measurements: measurementsFromResult(result, frameSize), landmarks: result.landmarks ?? [] };
+  }, [landmarker]);
+
+  return {
+    detectFrame,
+    isLoading: enabled && !landmarker && !error,
+    error
+  };
+};
@@ -0,0 +1,56 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import type { Point } from '../lib/geometry';
+
+export interface PointerDragUpdate<T> {
+  target: T;
+  // Client coordinates where the drag started and where the pointer is now
+  start: Point;
+  current: Point;
+}
+
+interface PointerDragOptions<T> {
+  onStart?: (target: T, start: Point) => void;
+  onMove: (update: PointerDragUpdate<T>) => void;
+  onEnd?: (target: T) => void;
+}
+
+// Single-pointer drag on overlay handles, identical for mouse, touch and pen.
+// `bind(target)` returns the handlers for one handle; the pointer is captured on
+// pointerdown, so moves keep arriving there even outside the handle.
+export const usePointerDrag = <T>({ onStart, onMove, onEnd }: PointerDragOptions<T>) => {
+  const dragRef = useRef<{ target: T; pointerId: number; start: Point } | null>(null);
+  const [activeTarget, setActiveTarget] = useState<T | null>(null);
+
+  const end = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    dragRef.current = null;
+    setActiveTarget(null);
+    onEnd?.(drag.target);
+  };
+
+  const bind = (target: T) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      // Primary button only, one drag at a time; stopping here keeps the view from panning
+      e.stopPropagation();
+      if (e.button !== 0 || dragRef.current) return;
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const start = { x: e.clientX, y: e.clientY };
+      dragRef.current = { target, pointerId: e.pointerId, start };
+      setActiveTarget(target);
+      onStart?.(target, start);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      e.stopPropagation();
+      onMove({ target: drag.target, start: drag.start, current: { x: e.clientX, y: e.clientY } });
+    },
+    onPointerUp: end,
+    onPointerCancel: end
+  });
+
+  return { bind, activeTarget };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  CUSTOM_REFERENCE_ID,
+  DEFAULT_CUSTOM_REFERENCE,
+  DEFAULT_REFERENCE_ID,
+  REFERENCE_OBJECTS,
+  type ReferenceObject
+} from '../lib/referenceObjects';
+
+const SELECTED_STORAGE_KEY = 'nailmetrics.referenceObjectId';
+const CUSTOM_STORAGE_KEY = 'nailmetrics.customReference';
+
+const loadCustomReference = (): ReferenceObject => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_STORAGE_KEY);
+    return raw ? { ...(JSON.parse(raw) as ReferenceObject), id: CUSTOM_REFERENCE_ID } : DEFAULT_CUSTOM_REFERENCE;
+  } catch (err) {
+    console.error("Failed to read custom reference object:", err);
+    return DEFAULT_CUSTOM_REFERENCE;
+  }
+};
+
+// Remembers the last reference object the user calibrated with
+export const useReferenceObject = () => {
+  const [selectedId, setSelectedId] = useState<string>(
+    () => localStorage.getItem(SELECTED_STORAGE_KEY) ?? DEFAULT_REFERENCE_ID
+  );
+  const [customObject, setCustomObject] = useState<ReferenceObject>(loadCustomReference);
+
+  useEffect(() => {
+    localStorage.setItem(SELECTED_STORAGE_KEY, selectedId);
+  }, [selectedId]);
+
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(customObject));
+  }, [customObject]);
+
+  const referenceObject = selectedId === CUSTOM_REFERENCE_ID
+    ? customObject
+    : REFERENCE_OBJECTS.find(o => o.id === selectedId) ?? REFERENCE_OBJECTS.find(o => o.id === DEFAULT_REFERENCE_ID)!;
+
+  const updateCustomObject = useCallback((object: ReferenceObject) => {
+    setCustomObject({ ...object, id: CUSTOM_REFERENCE_ID, group: 'Custom' });
+  }, []);
+
+  return {
+    referenceObject,
+    selectReference: setSelectedId,
+    customObject,
+    updateCustomObject
+  };
+};
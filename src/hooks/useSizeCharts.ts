@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { NailSet } from '../lib/nails';
+import { DEFAULT_SIZE_CHART, parseSizeChart, TOENAIL_SIZE_CHART, type SizeChart } from '../lib/sizeCharts';
+
+const CHARTS_STORAGE_KEY = 'nailmetrics.sizeCharts';
+// Hands and feet each remember their own chart
+const SELECTED_STORAGE_KEYS: Record<NailSet, string> = {
+  hands: 'nailmetrics.sizeChartId',
+  feet: 'nailmetrics.toenailSizeChartId'
+};
+const DEFAULT_CHARTS: Record<NailSet, SizeChart> = { hands: DEFAULT_SIZE_CHART, feet: TOENAIL_SIZE_CHART };
+
+const loadImportedCharts = (): SizeChart[] => {
+  try {
+    const raw = localStorage.getItem(CHARTS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SizeChart[]) : [];
+  } catch (err) {
+    console.error("Failed to read saved size charts:", err);
+    return [];
+  }
+};
+
+const loadSelectedIds = (): Record<NailSet, string> => ({
+  hands: localStorage.getItem(SELECTED_STORAGE_KEYS.hands) ?? DEFAULT_CHARTS.hands.id,
+  feet: localStorage.getItem(SELECTED_STORAGE_KEYS.feet) ?? DEFAULT_CHARTS.feet.id
+});
+
+// Size charts and the one selected for the nails on screen (fingernails or toenails)
+export const useSizeCharts = (nailSet: NailSet = 'hands') => {
+  const [importedCharts, setImportedCharts] = useState<SizeChart[]>(loadImportedCharts);
+  const [selectedIds, setSelectedIds] = useState<Record<NailSet, string>>(loadSelectedIds);
+
+  useEffect(() => {
+    localStorage.setItem(CHARTS_STORAGE_KEY, JSON.stringify(importedCharts));
+  }, [importedCharts]);
+
+  useEffect(() => {
+    localStorage.setItem(SELECTED_STORAGE_KEYS.hands, selectedIds.hands);
+    localStorage.setItem(SELECTED_STORAGE_KEYS.feet, selectedIds.feet);
+  }, [selectedIds]);
+
+  const charts = useMemo(() => [DEFAULT_SIZE_CHART, TOENAIL_SIZE_CHART, ...importedCharts], [importedCharts]);
+  const selectedChart = charts.find(c => c.id === selectedIds[nailSet]) ?? DEFAULT_CHARTS[nailSet];
+
+  const selectChart = useCallback((id: string) => {
+    setSelectedIds(prev => ({ ...prev, [nailSet]: id }));
+  }, [nailSet]);
+
+  // Throws with a user-facing message if the file is not a valid chart
+  const importChart = useCallback(async (file: File) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not valid JSON.`);
+    }
+    const chart = parseSizeChart(data);
+    setImportedCharts(prev => [...prev, chart]);
+    selectChart(chart.id);
+  }, [selectChart]);
+
+  const removeChart = useCallback((id: string) => {
+    setImportedCharts(prev => prev.filter(c => c.id !== id));
+    setSelectedIds(prev => ({
+      hands: prev.hands === id ? DEFAULT_CHARTS.hands.id : prev.hands,
+      feet: prev.feet === id ? DEFAULT_CHARTS.feet.id : prev.feet
+    }));
+  }, []);
+
+  return {
+    charts,
+    selectedChart,
+    selectChart,
+    importChart,
+    removeChart
+  };
+};
@@ -0,0 +1,100 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import { findSameNail, isSameBox } from './nails';
+
+// Adult population averages (mm) for each finger: nail plate width and the
+// Tip–DIP landmark distance (Tip–IP for the thumb)
+const FINGER_PRIORS: Record<string, { nailWidthMM: number; phalanxMM: number }> = {
+  Thumb: { nailWidthMM: 15.0, phalanxMM: 28.0 },
+  Index: { nailWidthMM: 11.5, phalanxMM: 22.0 },
+  Middle: { nailWidthMM: 12.0, phalanxMM: 24.0 },
+  Ring: { nailWidthMM: 11.2, phalanxMM: 23.0 },
+  Pinky: { nailWidthMM: 9.0, phalanxMM: 19.5 }
+};
+
+// Relative spread of one cue once overall hand size is accounted for:
+// finger-to-finger proportion differences plus box/landmark placement error
+const NAIL_WIDTH_SPREAD = 0.1;
+const PHALANX_SPREAD = 0.09;
+
+// Person-to-person spread of overall hand size. Every cue shares it, so adding
+// fingers narrows the proportion noise but never this part.
+const HAND_SIZE_SPREAD = 0.07;
+
+// Cues this far (in their own sigmas) from the consensus are dropped,
+// e.g. a box dragged off the nail or a misdetected finger
+const OUTLIER_SIGMAS = 3;
+
+// Two-sided 95% interval
+const Z_95 = 1.96;
+
+export interface ScaleEstimate {
+  pixelsPerMM: number;
+  // 95% interval for pixelsPerMM (a low scale means larger mm sizes)
+  low: number;
+  high: number;
+  // Worst-case relative error of mm sizes inside the interval, e.g. 0.15 = ±15%
+  relativeError: number;
+  // Nail widths and phalanx lengths that went into the estimate
+  cueCount: number;
+}
+
+interface Cue {
+  // log(pixels per mm) this cue implies, and its variance
+  logScale: number;
+  variance: number;
+}
+
+// Inverse-variance weighted mean in log space
+const combineCues = (cues: Cue[]) => {
+  const weight = cues.reduce((sum, c) => sum + 1 / c.variance, 0);
+  const mean = cues.reduce((sum, c) => sum + c.logScale / c.variance, 0) / weight;
+  return { mean, variance: 1 / weight };
+};
+
+// A heuristic detector box is sized from the phalanx length, so its width repeats
+// that cue. Only a box that was segmented or fitted by hand (or a nail without
+// a phalanx length) measured the nail width on its own.
+const hasOwnWidth = (m: NailMeasurement, detectedMeasurements?: NailMeasurement[]) => {
+  if (!m.phalanxLength || m.outline) return true;
+  const detected = detectedMeasurements && findSameNail(detectedMeasurements, m);
+  return detected !== undefined && !isSameBox(detected, m);
+};
+
+// Estimates the image scale from every detected finger against population priors.
+// `detectedMeasurements` tells hand-fitted boxes apart; drawn boxes are left out.
+// Returns null when no finger gives a usable cue.
+export const estimateScaleFromHands = (
+  measurements: NailMeasurement[],
+  detectedMeasurements?: NailMeasurement[]
+): ScaleEstimate | null => {
+  const cues: Cue[] = [];
+  measurements.forEach(m => {
+    const prior = FINGER_PRIORS[m.finger];
+    // Drawn boxes are sized by eye against the current scale; they'd only echo it back
+    if (!prior || m.manual) return;
+    if (m.boundingBox.width > 0 && hasOwnWidth(m, detectedMeasurements)) {
+      cues.push({ logScale: Math.log(m.boundingBox.width / prior.nailWidthMM), variance: NAIL_WIDTH_SPREAD ** 2 });
+    }
+    if (m.phalanxLength) {
+      cues.push({ logScale: Math.log(m.phalanxLength / prior.phalanxMM), variance: PHALANX_SPREAD ** 2 });
+    }
+  });
+  if (cues.length === 0) return null;
+
+  let fit = combineCues(cues);
+  const inliers = cues.filter(c => Math.abs(c.logScale - fit.mean) <= OUTLIER_SIGMAS * Math.sqrt(c.variance));
+  if (inliers.length > 0 && inliers.length < cues.length) fit = combineCues(inliers);
+
+  const sigma = Math.sqrt(fit.variance + HAND_SIZE_SPREAD ** 2);
+  return {
+    pixelsPerMM: Math.exp(fit.mean),
+    low: Math.exp(fit.mean - Z_95 * sigma),
+    high: Math.exp(fit.mean + Z_95 * sigma),
+    relativeError: Math.exp(Z_95 * sigma) - 1,
+    cueCount: inliers.length > 0 ? inliers.length : cues.length
+  };
+};
+
+// e.g. "±15% (95%, 10 cues)"
+export const describeScaleEstimate = (estimate: ScaleEstimate) =>
+  `±${Math.round(estimate.relativeError * 100)}% (95%, ${estimate.cueCount} cues)`;
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boxFromAxis,
+  fromNormalizedBox,
+  resizeBoxEdge,
+  rotateBox,
+  scaleBox,
+  toImagePoint,
+  toPercentBox,
+  translateBox,
+  type ImageSize,
+  type OrientedBox
+} from './boxGeometry';
+import type { Point } from './geometry';
+
+const PORTRAIT: ImageSize = { width: 600, height: 1000 };
+const LANDSCAPE: ImageSize = { width: 1000, height: 600 };
+
+const percent = (value: string) => parseFloat(value) / 100;
+
+// Where the middle of an edge sits, from the box's own axes
+const edgeMidpoint = (box: OrientedBox, edge: 'n' | 's' | 'e' | 'w'): Point => {
+  const cos = Math.cos(box.rotation);
+  const sin = Math.sin(box.rotation);
+  const [along, across] = {
+    e: [box.width / 2, 0],
+    w: [-box.width / 2, 0],
+    s: [0, box.height / 2],
+    n: [0, -box.height / 2]
+  }[edge];
+  return { x: box.x + along * cos - across * sin, y: box.y + along * sin + across * cos };
+};
+
+const expectPointCloseTo = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+};
+
+describe('editing', () => {
+  const box: OrientedBox = { x: 100, y: 200, width: 40, height: 60, rotation: 0 };
+
+  it('translates the center and keeps size and rotation', () => {
+    expect(translateBox({ ...box, rotation: 0.5 }, { x: 15, y: -5 })).toEqual({ ...box, x: 115, y: 195, rotation: 0.5 });
+  });
+
+  it('resizes one edge and keeps the opposite edge in place', () => {
+    const grown = resizeBoxEdge(box, 'e', { x: 10, y: 0 });
+    expect(grown).toEqual({ ...box, x: 105, width: 50 });
+    expectPointCloseTo(edgeMidpoint(grown, 'w'), edgeMidpoint(box, 'w'));
+
+    const shrunk = resizeBoxEdge(box, 'n', { x: 0, y: 20 });
+    expect(shrunk).toEqual({ ...box, y: 210, height: 40 });
+    expectPointCloseTo(edgeMidpoint(shrunk, 's'), edgeMidpoint(box, 's'));
+  });
+
+  it('resizes along the rotated axis, ignoring the perpendicular part of the drag', () => {
+    const rotated = { ...box, rotation: Math.PI / 2 };
+    // Rotated a quarter turn clockwise, the box's width runs down the screen
+    const grown = resizeBoxEdge(rotated, 'e', { x: 7, y: 10 });
+    expect(grown.width).toBeCloseTo(50);
+    expect(grown.height).toBe(box.height);
+    expectPointCloseTo(edgeMidpoint(grown, 'w'), edgeMidpoint(rotated, 'w'));
+    expectPointCloseTo(grown, { x: 100, y: 205 });
+  });
+
+  it('never shrinks an edge below the minimum size', () => {
+    const collapsed = resizeBoxEdge(box, 's', { x: 0, y: -100 }, 8);
+    expect(collapsed.height).toBe(8);
+    expectPointCloseTo(edgeMidpoint(collapsed, 'n'), edgeMidpoint(box, 'n'));
+  });
+
+  it('rotates about the center by the angle the pointer swept', () => {
+    const turned = rotateBox(box, { x: 100, y: 150 }, { x: 150, y: 200 });
+    expect(turned.rotation).toBeCloseTo(Math.PI / 2);
+    expect(turned).toMatchObject({ x: box.x, y: box.y, width: box.width, height: box.height });
+    // Relative to the current rotation, not a fresh angle
+    expect(rotateBox({ ...box, rotation: 0.3 }, { x: 150, y: 200 }, { x: 100, y: 250 }).rotation).toBeCloseTo(0.3 + Math.PI / 2);
+  });
+
+  it('draws a box from base to free edge with +y pointing back to the base', () => {
+    const drawn = boxFromAxis({ x: 100, y: 300 }, { x: 100, y: 200 }, 0.8);
+    expect(drawn.x).toBeCloseTo(100);
+    expect(drawn.y).toBeCloseTo(250);
+    expect(drawn.height).toBeCloseTo(100);
+    expect(drawn.width).toBeCloseTo(80);
+    // A nail drawn upwards is upright
+    expect(drawn.rotation).toBeCloseTo(0);
+    expectPointCloseTo(edgeMidpoint(drawn, 's'), { x: 100, y: 300 });
+    expectPointCloseTo(edgeMidpoint(drawn, 'n'), { x: 100, y: 200 });
+  });
+
+  it('draws diagonal boxes at the drag angle', () => {
+    const from = { x: 0, y: 0 };
+    const to = { x: 30, y: 40 };
+    const drawn = boxFromAxis(from, to, 1);
+    expect(drawn.height).toBeCloseTo(50);
+    expectPointCloseTo(edgeMidpoint(drawn, 's'), from);
+    expectPointCloseTo(edgeMidpoint(drawn, 'n'), to);
+  });
+});
+
+describe('conversion layer', () => {
+  describe.each([
+    ['portrait', PORTRAIT],
+    ['landscape', LANDSCAPE]
+  ])('%s photo', (_, size) => {
+    it('maps landmarks from fractions of width/height to image pixels', () => {
+      expect(toImagePoint({ x: 0.5, y: 0.25 }, size)).toEqual({ x: 0.5 * size.width, y: 0.25 * size.height });
+      expect(toImagePoint({ x: 1, y: 1 }, size)).toEqual({ x: size.width, y: size.height });
+    });
+
+    it('converts legacy normalized boxes to pixels, keeping the rotation', () => {
+      const legacy: OrientedBox = { x: 0.5, y: 0.5, width: 0.1, height: 0.2, rotation: 0.3 };
+      expect(fromNormalizedBox(legacy, size)).toEqual({
+        x: 0.5 * size.width,
+        y: 0.5 * size.height,
+        width: 0.1 * size.width,
+        height: 0.2 * size.height,
+        rotation: 0.3
+      });
+    });
+
+    it('places a pixel box at its own size in an element of the image aspect ratio', () => {
+      // Square in pixels, so its percentages differ on a non-square photo
+      const box: OrientedBox = { x: 300, y: 400, width: 60, height: 60, rotation: Math.PI / 4 };
+      const css = toPercentBox(box, size);
+      expect(percent(css.left) * size.width).toBeCloseTo(box.x);
+      expect(percent(css.top) * size.height).toBeCloseTo(box.y);
+      expect(percent(css.width) * size.width).toBeCloseTo(box.width);
+      expect(percent(css.height) * size.height).toBeCloseTo(box.height);
+    });
+  });
+
+  it('keeps a pixel-square box square on screen however the photo is displayed', () => {
+    const box: OrientedBox = { x: 500, y: 300, width: 60, height: 60, rotation: 0 };
+    const css = toPercentBox(box, LANDSCAPE);
+    // Shown 400 px wide, the element is 240 px tall
+    expect(percent(css.width) * 400).toBeCloseTo(percent(css.height) * 240);
+  });
+
+  it('scales boxes uniformly and leaves the rotation alone', () => {
+    const box: OrientedBox = { x: 120, y: 80, width: 30, height: 40, rotation: -0.7 };
+    expect(scaleBox(box, 0.5)).toEqual({ x: 60, y: 40, width: 15, height: 20, rotation: -0.7 });
+    const roundTrip = scaleBox(scaleBox(box, 0.37), 1 / 0.37);
+    expect(roundTrip.x).toBeCloseTo(box.x);
+    expect(roundTrip.width).toBeCloseTo(box.width);
+    expect(roundTrip.rotation).toBe(box.rotation);
+  });
+});
@@ -0,0 +1,111 @@
+import type { Point } from './geometry';
+
+// A rotated rectangle: center, size along its own axes and rotation in radians
+// (clockwise on screen). All lengths share one isotropic unit, e.g. screen pixels.
+export interface OrientedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export type BoxEdge = 'n' | 's' | 'e' | 'w';
+
+// Unit vectors along the box's width (towards 'e') and height (towards 's')
+const getBoxAxes = (rotation: number) => {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return { u: { x: cos, y: sin }, v: { x: -sin, y: cos } };
+};
+
+export const translateBox = (box: OrientedBox, delta: Point): OrientedBox => ({
+  ...box,
+  x: box.x + delta.x,
+  y: box.y + delta.y
+});
+
+// Moves one edge by the pointer delta projected onto the box's own axis.
+// The opposite edge stays put, so the center shifts by half the growth.
+export const resizeBoxEdge = (box: OrientedBox, edge: BoxEdge, delta: Point, minSize = 0): OrientedBox => {
+  const { u, v } = getBoxAxes(box.rotation);
+  const isWidth = edge === 'e' || edge === 'w';
+  const axis = isWidth ? u : v;
+  const sign = edge === 'e' || edge === 's' ? 1 : -1;
+
+  const along = delta.x * axis.x + delta.y * axis.y;
+  const current = isWidth ? box.width : box.height;
+  const size = Math.max(minSize, current + sign * along);
+  const shift = (sign * (size - current)) / 2;
+
+  return {
+    ...box,
+    width: isWidth ? size : box.width,
+    height: isWidth ? box.height : size,
+    x: box.x + axis.x * shift,
+    y: box.y + axis.y * shift
+  };
+};
+
+// Rotates about the box center by the angle the pointer swept from `start` to `current`
+export const rotateBox = (box: OrientedBox, start: Point, current: Point): OrientedBox => {
+  const startAngle = Math.atan2(start.y - box.y, start.x - box.x);
+  const angle = Math.atan2(current.y - box.y, current.x - box.x);
+  return { ...box, rotation: box.rotation + angle - startAngle };
+};
+
+// Box drawn along a nail from its base (`from`) to its free edge (`to`): the drag is the
+// length, the width follows from `aspect`. Like detected boxes, +y points towards the base.
+export const boxFromAxis = (from: Point, to: Point, aspect: number): OrientedBox => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return {
+    x: (from.x + to.x) / 2,
+    y: (from.y + to.y) / 2,
+    width: length * aspect,
+    height: length,
+    rotation: Math.atan2(from.y - to.y, from.x - to.x) - Math.PI / 2
+  };
+};
+
+// --- Conversion layer ---
+// Nail boxes live in image pixels of the analyzed photo. Everything that comes in
+// normalized (landmarks, legacy records) or goes out scaled (overlay, canvases)
+// converts through these helpers so rotation stays correct on non-square photos.
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// MediaPipe landmark (fractions of the image width/height) -> image pixels
+export const toImagePoint = (p: Point, size: ImageSize): Point => ({
+  x: p.x * size.width,
+  y: p.y * size.height
+});
+
+// Uniform scale, e.g. image pixels -> screen/canvas/working-copy pixels
+export const scaleBox = (box: OrientedBox, factor: number): OrientedBox => ({
+  x: box.x * factor,
+  y: box.y * factor,
+  width: box.width * factor,
+  height: box.height * factor,
+  rotation: box.rotation
+});
+
+// Boxes saved before the pixel model were fractions of the image width (x, width)
+// and height (y, height). Those fractions already described this pixel box.
+export const fromNormalizedBox = (box: OrientedBox, size: ImageSize): OrientedBox => ({
+  x: box.x * size.width,
+  y: box.y * size.height,
+  width: box.width * size.width,
+  height: box.height * size.height,
+  rotation: box.rotation
+});
+
+// CSS placement inside an element that shows the whole image at its aspect ratio
+export const toPercentBox = (box: OrientedBox, size: ImageSize) => ({
+  left: `${(box.x / size.width) * 100}%`,
+  top: `${(box.y / size.height) * 100}%`,
+  width: `${(box.width / size.width) * 100}%`,
+  height: `${(box.height / size.height) * 100}%`
+});
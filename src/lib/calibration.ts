@@ -0,0 +1,28 @@
+// Where the current pixelsPerMM came from
+// 'thumb-estimate' is only found on analyses saved before the multi-finger estimator
+export type CalibrationMethod = 'reference' | 'card-perspective' | 'world-landmarks' | 'anthropometric' | 'thumb-estimate';
+
+export const CALIBRATION_LABELS: Record<CalibrationMethod, string> = {
+  'reference': 'Reference object',
+  'card-perspective': 'Card perspective (4 corners)',
+  'world-landmarks': 'Estimated (world landmarks)',
+  'anthropometric': 'Estimated (finger proportions)',
+  'thumb-estimate': 'Estimated (15 mm thumb)'
+};
+
+// e.g. "Reference object: Quarter (25¢) (24.26 mm)"
+export const describeCalibration = (
+  method: CalibrationMethod | null | undefined,
+  detail?: string
+) => {
+  if (!method) return 'Uncalibrated';
+  return detail ? `${CALIBRATION_LABELS[method]}: ${detail}` : CALIBRATION_LABELS[method];
+};
+
+// True when the scale was measured from a physical reference rather than assumed
+export const isMeasuredCalibration = (method: CalibrationMethod | null | undefined) =>
+  method === 'reference' || method === 'card-perspective';
+
+// Scale inferred from the hand itself rather than a physical reference
+export const isEstimatedCalibration = (method: CalibrationMethod | null | undefined) =>
+  method === 'world-landmarks' || method === 'anthropometric' || method === 'thumb-estimate';
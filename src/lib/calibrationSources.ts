@@ -0,0 +1,86 @@
+import { describeScaleEstimate, type ScaleEstimate } from './anthropometry';
+import { isMeasuredCalibration, type CalibrationMethod } from './calibration';
+import type { SessionPhoto } from './historyStore';
+
+// Ways a photo can get its scale, as offered in the calibration panel
+export type CalibrationSourceId = 'reference' | 'world-landmarks' | 'anthropometric';
+
+export interface CalibrationSource {
+  id: CalibrationSourceId;
+  label: string;
+  // Null while this photo has no result from the source (e.g. not calibrated with a coin yet)
+  pixelsPerMM: number | null;
+  // 95% range, for the estimated sources
+  estimate?: ScaleEstimate;
+  detail?: string;
+  // Photo fields that make this source the active calibration
+  changes: Partial<SessionPhoto> | null;
+}
+
+export const getCalibrationSourceId = (method: CalibrationMethod | null | undefined): CalibrationSourceId | null => {
+  if (isMeasuredCalibration(method)) return 'reference';
+  if (method === 'world-landmarks') return 'world-landmarks';
+  if (method === 'anthropometric' || method === 'thumb-estimate') return 'anthropometric';
+  return null;
+};
+
+const fromEstimate = (method: CalibrationMethod, estimate: ScaleEstimate): Partial<SessionPhoto> => ({
+  pixelsPerMM: estimate.pixelsPerMM,
+  homography: undefined,
+  calibrationMethod: method,
+  calibrationDetail: describeScaleEstimate(estimate)
+});
+
+const describeWorldScale = (photo: SessionPhoto) => {
+  const scale = photo.worldScale;
+  if (!scale) return "No world landmarks for this photo";
+  if (scale.focalLength35mm && scale.distanceMM) {
+    return `${scale.focalLength35mm} mm lens (EXIF) · hand ~${Math.round(scale.distanceMM / 10)} cm away`;
+  }
+  return "No focal length in EXIF; scale at the hand center";
+};
+
+// Every scale source for one photo, in the order the panel lists them
+export const getCalibrationSources = (photo: SessionPhoto): CalibrationSource[] => {
+  // Photos calibrated before sources were kept side by side only have the active one
+  const reference = photo.referenceCalibration
+    ?? (isMeasuredCalibration(photo.calibrationMethod) ? photo : undefined);
+
+  return [
+    {
+      id: 'reference',
+      label: "Reference object",
+      pixelsPerMM: reference?.pixelsPerMM ?? null,
+      detail: reference ? reference.calibrationDetail : "Use Calibrate with a coin or card",
+      changes: reference ? {
+        pixelsPerMM: reference.pixelsPerMM,
+        homography: reference.homography,
+        calibrationMethod: reference.calibrationMethod,
+        calibrationDetail: reference.calibrationDetail
+      } : null
+    },
+    {
+      id: 'world-landmarks',
+      label: "World landmarks",
+      pixelsPerMM: photo.worldScale?.pixelsPerMM ?? null,
+      estimate: photo.worldScale,
+      detail: describeWorldScale(photo),
+      changes: photo.worldScale ? fromEstimate('world-landmarks', photo.worldScale) : null
+    },
+    {
+      id: 'anthropometric',
+      label: "Finger proportions",
+      pixelsPerMM: photo.scaleEstimate?.pixelsPerMM ?? null,
+      estimate: photo.scaleEstimate,
+      detail: photo.scaleEstimate ? `${photo.scaleEstimate.cueCount} nail/phalanx cues` : "No fingers detected",
+      changes: photo.scaleEstimate ? fromEstimate('anthropometric', photo.scaleEstimate) : null
+    }
+  ];
+};
+
+// Range of the photo's active scale, when it is an estimate
+export const getActiveScaleEstimate = (photo: SessionPhoto | null): ScaleEstimate | undefined => {
+  if (photo?.calibrationMethod === 'world-landmarks') return photo.worldScale;
+  if (photo?.calibrationMethod === 'anthropometric') return photo.scaleEstimate;
+  return undefined;
+};
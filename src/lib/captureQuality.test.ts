@@ -0,0 +1,84 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { describe, expect, it } from 'vitest';
+import { assessCaptureQuality, assessGrayscaleQuality, hasBlockingIssue, type QualityIssueKind } from './captureQuality';
+import type { GrayImage } from './imageProcessing';
+
+const SIZE = 200;
+
+// Deterministic uniform noise in [0, 1)
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const makeImage = (pixel: (random: () => number) => number): GrayImage => {
+  const random = createRandom(42);
+  const data = new Float32Array(SIZE * SIZE);
+  for (let i = 0; i < data.length; i++) data[i] = pixel(random);
+  return { data, width: SIZE, height: SIZE, scale: 1 };
+};
+
+// Luma around `level`, uniformly spread by ±`amplitude`
+const noisy = (level: number, amplitude: number) => makeImage(random => level + (random() * 2 - 1) * amplitude);
+
+// One hand with its fingertips spread along a row; DIPs just below each tip
+const makeHand = (tips: { x: number; y: number }[] = [0.2, 0.35, 0.5, 0.65, 0.8].map(x => ({ x, y: 0.3 }))) => {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.7, z: 0, visibility: 1 }));
+  tips.forEach((tip, finger) => {
+    const tipIndex = 4 + finger * 4;
+    landmarks[tipIndex] = { ...tip, z: 0, visibility: 1 };
+    landmarks[tipIndex - 1] = { x: tip.x, y: tip.y + 0.05, z: 0, visibility: 1 };
+  });
+  return landmarks;
+};
+
+const kinds = (image: GrayImage, hands = [makeHand()]) =>
+  assessGrayscaleQuality(image, hands).map(issue => `${issue.kind}:${issue.severity}`);
+
+describe('assessCaptureQuality', () => {
+  it('passes a sharp, well exposed photo', () => {
+    expect(kinds(noisy(128, 40))).toEqual([]);
+  });
+
+  it.each<[string, GrayImage, `${QualityIssueKind}:${string}`]>([
+    // A Laplacian of uniform noise ±a has variance 20a²/3
+    ['a flat photo', noisy(128, 0), 'blur:block'],
+    ['a slightly soft photo', noisy(128, 2), 'blur:warning'],
+    ['a very dark photo', noisy(15, 8), 'dark:block'],
+    ['a dim photo', noisy(40, 8), 'dark:warning']
+  ])('flags %s', (_, image, expected) => {
+    expect(kinds(image)).toEqual([expected]);
+  });
+
+  it('flags clipped highlights by how much of the nails is blown out', () => {
+    const clipped = (fraction: number) => makeImage(random => (random() < fraction ? 255 : 120 + random() * 40));
+    expect(kinds(clipped(0.8))).toEqual(['bright:block']);
+    expect(kinds(clipped(0.45))).toEqual(['bright:warning']);
+    expect(kinds(clipped(0.1))).toEqual([]);
+  });
+
+  it('names the fingertips cut off by the frame edge', () => {
+    const tips = [{ x: 0.005, y: 0.3 }, { x: 0.35, y: 0.3 }, { x: 0.5, y: 0.3 }, { x: 0.65, y: 0.3 }, { x: 0.8, y: 0.995 }];
+    const issues = assessGrayscaleQuality(noisy(128, 40), [makeHand(tips)]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'framing', severity: 'warning' });
+    expect(issues[0].message).toMatch(/^Thumb and Pinky tips touch/);
+  });
+
+  it('still checks the fingertips that are inside the frame', () => {
+    const tips = [{ x: 0.995, y: 0.3 }, { x: 0.35, y: 0.3 }, { x: 0.5, y: 0.3 }, { x: 0.65, y: 0.3 }, { x: 0.8, y: 0.3 }];
+    expect(kinds(noisy(128, 0), [makeHand(tips)])).toEqual(['framing:warning', 'blur:block']);
+  });
+
+  it('only warns when no hand was found', () => {
+    const issues = assessCaptureQuality({} as HTMLImageElement, []);
+    expect(issues.map(issue => issue.kind)).toEqual(['no-hand']);
+    expect(hasBlockingIssue(issues)).toBe(false);
+  });
+
+  it('blocks the result only for block severities', () => {
+    expect(hasBlockingIssue(assessGrayscaleQuality(noisy(128, 0), [makeHand()]))).toBe(true);
+    expect(hasBlockingIssue(assessGrayscaleQuality(noisy(128, 2), [makeHand()]))).toBe(false);
+    expect(hasBlockingIssue(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { loadGrayscale, type GrayImage } from './imageProcessing';
+import { FINGERTIP_INDICES } from './liveCapture';
+import { FINGER_ORDER } from './nails';
+
+export type QualityIssueKind = 'blur' | 'dark' | 'bright' | 'framing' | 'no-hand';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  // 'block' hides the result and asks for a retake; 'warning' shows it with a notice
+  severity: 'warning' | 'block';
+  message: string;
+}
+
+// Sharpness is measured on a copy of this size so it doesn't depend on camera resolution
+const WORKING_SIZE = 1024;
+// Laplacian variance around the fingertips (0-255 luma); tuned on phone photos of hands
+const SHARPNESS_WARNING = 40;
+const SHARPNESS_BLOCK = 12;
+// Mean fingertip luma (0-255)
+const DARK_WARNING = 50;
+const DARK_BLOCK = 25;
+// Fraction of fingertip pixels clipped to white
+const CLIPPED_LUMA = 250;
+const BRIGHT_WARNING = 0.3;
+const BRIGHT_BLOCK = 0.6;
+// Tips closer than this to the frame edge (fraction of the image) are treated as cut off
+const EDGE_MARGIN = 0.01;
+
+interface RegionStats {
+  sharpness: number;
+  meanLuma: number;
+  clippedFraction: number;
+}
+
+// Variance of the 4-neighbour Laplacian plus brightness stats inside a square window
+const measureRegion = (gray: GrayImage, cx: number, cy: number, radius: number): RegionStats | null => {
+  const { data, width, height } = gray;
+  const x0 = Math.max(1, Math.round(cx - radius));
+  const x1 = Math.min(width - 2, Math.round(cx + radius));
+  const y0 = Math.max(1, Math.round(cy - radius));
+  const y1 = Math.min(height - 2, Math.round(cy + radius));
+  if (x1 - x0 < 4 || y1 - y0 < 4) return null;
+
+  let sum = 0;
+  let sumSq = 0;
+  let luma = 0;
+  let clipped = 0;
+  let count = 0;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const i = y * width + x;
+      const laplacian = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += laplacian;
+      sumSq += laplacian * laplacian;
+      luma += data[i];
+      if (data[i] >= CLIPPED_LUMA) clipped++;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return {
+    sharpness: sumSq / count - mean * mean,
+    meanLuma: luma / count,
+    clippedFraction: clipped / count
+  };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+// The checks of assessCaptureQuality on a grayscale copy of the photo (at least one hand)
+export const assessGrayscaleQuality = (gray: GrayImage, hands: NormalizedLandmark[][]): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+
+  // Fingertip windows are sized from the distal phalanx so they cover the nail
+  const regions: RegionStats[] = [];
+  const cutOff = new Set<string>();
+  hands.forEach(landmarks => {
+    FINGERTIP_INDICES.forEach((tipIndex, finger) => {
+      const tip = landmarks[tipIndex];
+      const dip = landmarks[tipIndex - 1];
+      if (tip.x < EDGE_MARGIN || tip.x > 1 - EDGE_MARGIN || tip.y < EDGE_MARGIN || tip.y > 1 - EDGE_MARGIN) {
+        cutOff.add(FINGER_ORDER[finger]);
+        return;
+      }
+      const radius = Math.max(8, 1.2 * Math.hypot((tip.x - dip.x) * gray.width, (tip.y - dip.y) * gray.height));
+      const stats = measureRegion(gray, tip.x * gray.width, tip.y * gray.height, radius);
+      if (stats) regions.push(stats);
+    });
+  });
+
+  if (cutOff.size > 0) {
+    const names = FINGER_ORDER.filter(name => cutOff.has(name));
+    issues.push({
+      kind: 'framing',
+      severity: 'warning',
+      message: `${joinNames(names)} ${names.length === 1 ? 'tip touches' : 'tips touch'} the frame edge. Step back so every fingertip is inside the photo.`
+    });
+  }
+
+  if (regions.length === 0) return issues;
+
+  const sharpness = median(regions.map(r => r.sharpness));
+  if (sharpness < SHARPNESS_WARNING) {
+    issues.push({
+      kind: 'blur',
+      severity: sharpness < SHARPNESS_BLOCK ? 'block' : 'warning',
+      message: "Fingertips look blurry. Hold the camera steady and tap the screen to focus on the nails."
+    });
+  }
+
+  const meanLuma = regions.reduce((sum, r) => sum + r.meanLuma, 0) / regions.length;
+  const clippedFraction = regions.reduce((sum, r) => sum + r.clippedFraction, 0) / regions.length;
+  if (meanLuma < DARK_WARNING) {
+    issues.push({
+      kind: 'dark',
+      severity: meanLuma < DARK_BLOCK ? 'block' : 'warning',
+      message: "The photo is too dark. Move to brighter, even light."
+    });
+  } else if (clippedFraction > BRIGHT_WARNING) {
+    issues.push({
+      kind: 'bright',
+      severity: clippedFraction > BRIGHT_BLOCK ? 'block' : 'warning',
+      message: "The nails are over-exposed. Avoid direct sunlight or flash glare on the nails."
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Scores a photo before its measurements are trusted: fingertip sharpness, exposure
+ * and whether any fingertip is cut off by the frame. Landmarks come from the hand landmarker.
+ */
+export const assessCaptureQuality = (source: HTMLImageElement, hands: NormalizedLandmark[][]): QualityIssue[] => {
+  if (hands.length === 0) {
+    return [{
+      kind: 'no-hand',
+      severity: 'warning',
+      message: "No hand detected. Lay your hand flat with the fingers spread and the nails facing the camera."
+    }];
+  }
+  return assessGrayscaleQuality(loadGrayscale(source, WORKING_SIZE), hands);
+};
+
+export const hasBlockingIssue = (issues: QualityIssue[] | undefined) =>
+  issues?.some(issue => issue.severity === 'block') ?? false;
@@ -0,0 +1,138 @@
+import { boxBlur, loadGrayscale, percentile, sobel, type GrayImage } from './imageProcessing';
+
+export interface DetectedCircle {
+  // Center and radius in source image pixels
+  x: number;
+  y: number;
+  radius: number;
+  // Fraction of the circumference backed by a radial edge (0-1)
+  confidence: number;
+}
+
+// Hough runs on a downscaled copy; coins are large enough to survive it
+const WORKING_SIZE = 320;
+// Coin diameter as a fraction of the shorter image side
+const MIN_RADIUS_RATIO = 0.025;
+const MAX_RADIUS_RATIO = 0.25;
+// Strongest 12% of gradients count as edges
+const EDGE_PERCENTILE = 0.88;
+const MAX_CANDIDATES = 12;
+const CIRCUMFERENCE_SAMPLES = 90;
+// Edge gradient must point (anti-)radially: |cos| of the angle between them
+const RADIAL_ALIGNMENT = 0.85;
+// Radii scoring within 3% of the best are considered equally good
+const PLATEAU_RATIO = 0.97;
+
+/**
+ * Two-stage gradient Hough transform (as in OpenCV's HOUGH_GRADIENT):
+ *  1. every edge pixel votes for centers along its gradient direction,
+ *  2. the strongest centers are scored by how much of a circle around them is covered
+ *     by radially oriented edges.
+ * Full coins score close to 1, fingertips (half circles) around 0.5.
+ */
+export const findCircle = (image: GrayImage): DetectedCircle | null => {
+  const gray = boxBlur(image);
+  const { width, height, scale } = gray;
+  const { gx, gy, magnitude } = sobel(gray);
+
+  const threshold = Math.max(20, percentile(magnitude, EDGE_PERCENTILE));
+  const minDim = Math.min(width, height);
+  const rMin = Math.max(4, Math.round(minDim * MIN_RADIUS_RATIO));
+  const rMax = Math.round(minDim * MAX_RADIUS_RATIO);
+
+  // 1. Center voting
+  const votes = new Float32Array(width * height);
+  const isEdge = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (magnitude[i] < threshold) continue;
+      isEdge[i] = 1;
+
+      const ux = gx[i] / magnitude[i];
+      const uy = gy[i] / magnitude[i];
+      // Coin may be brighter or darker than the background: vote both ways
+      for (const sign of [1, -1]) {
+        for (let r = rMin; r <= rMax; r++) {
+          const cx = Math.round(x + sign * ux * r);
+          const cy = Math.round(y + sign * uy * r);
+          if (cx < 0 || cy < 0 || cx >= width || cy >= height) break;
+          votes[cy * width + cx] += 1;
+        }
+      }
+    }
+  }
+
+  // 2. Candidate centers: local maxima with simple non-maximum suppression
+  const candidates: { x: number; y: number; votes: number }[] = [];
+  const nmsRadius = Math.max(2, Math.round(rMin / 2));
+  for (let y = nmsRadius; y < height - nmsRadius; y++) {
+    for (let x = nmsRadius; x < width - nmsRadius; x++) {
+      const v = votes[y * width + x];
+      if (v < 3) continue;
+      let isPeak = true;
+      for (let dy = -nmsRadius; dy <= nmsRadius && isPeak; dy++) {
+        for (let dx = -nmsRadius; dx <= nmsRadius; dx++) {
+          if (votes[(y + dy) * width + (x + dx)] > v) { isPeak = false; break; }
+        }
+      }
+      if (isPeak) candidates.push({ x, y, votes: v });
+    }
+  }
+  candidates.sort((a, b) => b.votes - a.votes);
+
+  // 3. Radius + coverage score per candidate
+  const isRadialEdgeAt = (px: number, py: number, cx: number, cy: number) => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const x = Math.round(px) + dx;
+        const y = Math.round(py) + dy;
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        const i = y * width + x;
+        if (!isEdge[i]) continue;
+        const rx = x - cx;
+        const ry = y - cy;
+        const dot = (gx[i] * rx + gy[i] * ry) / (magnitude[i] * Math.hypot(rx, ry) || 1);
+        if (Math.abs(dot) >= RADIAL_ALIGNMENT) return true;
+      }
+    }
+    return false;
+  };
+
+  let best: DetectedCircle | null = null;
+  for (const candidate of candidates.slice(0, MAX_CANDIDATES)) {
+    const coverage: number[] = [];
+    for (let r = rMin; r <= rMax; r++) {
+      let hits = 0;
+      for (let k = 0; k < CIRCUMFERENCE_SAMPLES; k++) {
+        const angle = (k / CIRCUMFERENCE_SAMPLES) * Math.PI * 2;
+        if (isRadialEdgeAt(candidate.x + Math.cos(angle) * r, candidate.y + Math.sin(angle) * r, candidate.x, candidate.y)) {
+          hits++;
+        }
+      }
+      coverage.push(hits / CIRCUMFERENCE_SAMPLES);
+    }
+
+    const maxCoverage = Math.max(...coverage);
+    if (best && maxCoverage <= best.confidence) continue;
+
+    // The edge is ~3px thick, so several radii share the top score. Take the middle of the
+    // outermost plateau: inner plateaus are usually the coin's relief rim.
+    let end = coverage.length - 1;
+    while (coverage[end] < maxCoverage * PLATEAU_RATIO) end--;
+    let start = end;
+    while (start > 0 && coverage[start - 1] >= maxCoverage * PLATEAU_RATIO) start--;
+
+    best = {
+      x: candidate.x / scale,
+      y: candidate.y / scale,
+      radius: (rMin + (start + end) / 2) / scale,
+      confidence: maxCoverage
+    };
+  }
+
+  return best;
+};
+
+export const detectCircle = (source: HTMLImageElement): DetectedCircle | null =>
+  findCircle(loadGrayscale(source, WORKING_SIZE));
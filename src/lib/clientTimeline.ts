@@ -0,0 +1,66 @@
+import type { HandSide } from '../hooks/useHandDetection';
+import { isMeasuredCalibration } from './calibration';
+import { fuseSessionPhotos } from './fusion';
+import { getSessionPhotos, type AnalysisRecord } from './historyStore';
+import { getDigitRank, getNailSet, HAND_ORDER } from './nails';
+
+export interface TimelinePoint {
+  analysisId: string;
+  date: number;
+  widthMM: number;
+  lengthMM: number;
+  // Estimated scale (thumb prior) rather than a measured reference
+  estimated: boolean;
+}
+
+export interface FingerTimeline {
+  key: string;
+  label: string;
+  hand: HandSide;
+  finger: string;
+  points: TimelinePoint[];
+}
+
+// Fingernails before toenails, then Left before Right
+const isToe = (timeline: FingerTimeline) => (getNailSet(timeline.finger) === 'feet' ? 1 : 0);
+
+const sortTimelines = (a: FingerTimeline, b: FingerTimeline) =>
+  isToe(a) - isToe(b) ||
+  HAND_ORDER.indexOf(a.hand) - HAND_ORDER.indexOf(b.hand) ||
+  getDigitRank(a.finger) - getDigitRank(b.finger);
+
+// A visit counts as measured when any of its photos was calibrated with a reference
+export const isMeasuredAnalysis = (record: AnalysisRecord) =>
+  getSessionPhotos(record).some(p => p.pixelsPerMM && isMeasuredCalibration(p.calibrationMethod));
+
+// One series per finger ("Left Index", ...) across all visits that have a scale.
+// Each visit contributes its fused value (all photos of the session, outliers dropped).
+export const buildFingerTimelines = (records: AnalysisRecord[]): FingerTimeline[] => {
+  const timelines = new Map<string, FingerTimeline>();
+
+  records.forEach(record => {
+    const estimated = !isMeasuredAnalysis(record);
+    fuseSessionPhotos(getSessionPhotos(record)).forEach(nail => {
+      if (!timelines.has(nail.key)) {
+        timelines.set(nail.key, { key: nail.key, label: nail.key, hand: nail.hand, finger: nail.finger, points: [] });
+      }
+      timelines.get(nail.key)!.points.push({
+        analysisId: record.id,
+        date: record.createdAt,
+        widthMM: nail.widthMM,
+        lengthMM: nail.lengthMM,
+        estimated
+      });
+    });
+  });
+
+  timelines.forEach(timeline => timeline.points.sort((a, b) => a.date - b.date));
+  return [...timelines.values()].sort(sortTimelines);
+};
+
+// The client's "current" sizes come from their most recent calibrated visit
+export const getLatestCalibratedAnalysis = (records: AnalysisRecord[]): AnalysisRecord | null => {
+  const calibrated = records.filter(isMeasuredAnalysis);
+  if (calibrated.length === 0) return null;
+  return calibrated.reduce((latest, r) => (r.createdAt > latest.createdAt ? r : latest));
+};
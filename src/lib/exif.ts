@@ -0,0 +1,68 @@
+// Minimal EXIF reader: just the camera hints calibration can use.
+// The APP1 segment sits at the start of a JPEG and is at most 64 KB.
+const MAX_HEADER_BYTES = 65536 + 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_FOCAL_LENGTH_35MM = 0xa405;
+
+// Decodes just the head of a base64 data URL
+const readDataUrlHead = (dataUrl: string): DataView | null => {
+  const comma = dataUrl.indexOf(',');
+  if (comma < 0 || !dataUrl.slice(0, comma).includes('base64')) return null;
+  // 4 base64 characters per 3 bytes; keep the chunk on a 4-character boundary
+  const chars = Math.ceil(MAX_HEADER_BYTES / 3) * 4;
+  const binary = atob(dataUrl.slice(comma + 1, comma + 1 + chars));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new DataView(bytes.buffer);
+};
+
+// Finds a tag in one IFD and returns its inline SHORT/LONG value
+const readIfdValue = (view: DataView, tiffStart: number, ifdOffset: number, tag: number, little: boolean) => {
+  const ifd = tiffStart + ifdOffset;
+  if (ifd + 2 > view.byteLength) return undefined;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return undefined;
+    if (view.getUint16(entry, little) !== tag) continue;
+    const type = view.getUint16(entry + 2, little);
+    // 3 = SHORT, 4 = LONG
+    if (type === 3) return view.getUint16(entry + 8, little);
+    if (type === 4) return view.getUint32(entry + 8, little);
+    return undefined;
+  }
+  return undefined;
+};
+
+// 35 mm-equivalent focal length of a JPEG data URL, when its EXIF has one.
+// Camera-preview captures (canvas screenshots) carry no EXIF.
+export const readFocalLength35mm = (dataUrl: string): number | undefined => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return undefined;
+  try {
+    const view = readDataUrlHead(dataUrl);
+    if (!view || view.getUint16(0) !== 0xffd8) return undefined;
+
+    // Walk the JPEG segments up to the APP1 "Exif" one
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // Start of scan: no metadata past this point
+      if (marker === 0xffda) return undefined;
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = view.getUint32(tiffStart + 4, little);
+        const exifIfd = readIfdValue(view, tiffStart, ifd0, TAG_EXIF_IFD, little);
+        if (exifIfd === undefined) return undefined;
+        const focal = readIfdValue(view, tiffStart, exifIfd, TAG_FOCAL_LENGTH_35MM, little);
+        return focal ? focal : undefined;
+      }
+      offset += 2 + length;
+    }
+  } catch (err) {
+    console.error("Failed to read EXIF:", err);
+  }
+  return undefined;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCSV } from './export';
+
+describe('escapeCSV', () => {
+  it('leaves plain text and numbers alone', () => {
+    expect(escapeCSV('Left Index')).toBe('Left Index');
+    expect(escapeCSV(12.5)).toBe('12.5');
+    expect(escapeCSV(null)).toBe('');
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(escapeCSV('Coin, 26 mm')).toBe('"Coin, 26 mm"');
+    expect(escapeCSV('The "big" card')).toBe('"The ""big"" card"');
+    expect(escapeCSV('two\nlines')).toBe('"two\nlines"');
+    expect(escapeCSV('two\rlines')).toBe('"two\rlines"');
+    expect(escapeCSV('two\r\nlines')).toBe('"two\r\nlines"');
+  });
+
+  it.each(['=', '+', '-', '@'])('neutralises text starting with %s', prefix => {
+    expect(escapeCSV(`${prefix}SUM(A1:A9)`)).toBe(`'${prefix}SUM(A1:A9)`);
+  });
+
+  it('neutralises text starting with a tab or carriage return', () => {
+    expect(escapeCSV('\t=1+1')).toBe("'\t=1+1");
+    // Still quoted for the line break once neutralised
+    expect(escapeCSV('\r=1+1')).toBe('"\'\r=1+1"');
+  });
+
+  it('keeps negative numbers as numbers', () => {
+    expect(escapeCSV(-1.5)).toBe('-1.5');
+  });
+
+  it('neutralises before quoting', () => {
+    expect(escapeCSV('=HYPERLINK("x", "y")')).toBe('"\'=HYPERLINK(""x"", ""y"")"');
+  });
+});
@@ -0,0 +1,263 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import type { ScaleEstimate } from './anthropometry';
+import { scaleBox } from './boxGeometry';
+import { describeCalibration, type CalibrationMethod } from './calibration';
+import { getFusedNail, type NailFusion } from './fusion';
+import type { Homography } from './homography';
+import { getNailDimensionsMM } from './measurement';
+import { getNailLabel, groupByHand, LIMB_LABELS, type NailSet } from './nails';
+import { matchNailSize, type SizeChart } from './sizeCharts';
+import { CONFIDENCE_LABELS, getNailUncertainty, type ConfidenceLevel } from './uncertainty';
+
+export interface ExportContext {
+  imageSrc: string;
+  imageSize: { width: number; height: number };
+  measurements: NailMeasurement[];
+  pixelsPerMM?: number;
+  homography?: Homography;
+  calibrationMethod: CalibrationMethod | null;
+  calibrationDetail?: string;
+  // Range of the scale when it is an estimate
+  scaleEstimate?: ScaleEstimate;
+  // Boxes as detected, to tell hand-fitted boxes apart
+  detectedMeasurements?: NailMeasurement[];
+  sizeChart: SizeChart;
+  // Multi-photo sessions: fused sizes override the values of the photo above
+  fusion?: NailFusion;
+  // Fingernails unless the photo is of feet
+  nailSet?: NailSet;
+}
+
+export interface ExportRow {
+  hand: string;
+  finger: string;
+  label: string;
+  widthMM: number | null;
+  lengthMM: number | null;
+  // Standard deviation across photos (0 for a single photo)
+  widthSpreadMM: number | null;
+  lengthSpreadMM: number | null;
+  // ± half-width of the 95% range; null when uncalibrated
+  widthUncertaintyMM: number | null;
+  lengthUncertaintyMM: number | null;
+  confidence: ConfidenceLevel | null;
+  photoCount: number;
+  size: string | null;
+  alternateSize: string | null;
+  calibration: string;
+  // Raw box (image pixels) so the analysis can be reproduced
+  boundingBox: NailMeasurement['boundingBox'];
+  // Segmented contour relative to the box, when segmentation succeeded
+  outline: NailMeasurement['outline'] | null;
+}
+
+const round = (value: number | null, digits = 2) =>
+  value === null ? null : Number(value.toFixed(digits));
+
+const getCalibrationLabel = (ctx: ExportContext) =>
+  ctx.pixelsPerMM ? describeCalibration(ctx.calibrationMethod, ctx.calibrationDetail) : 'Uncalibrated';
+
+// Rows follow the sidebar order (per hand, Thumb -> Pinky)
+export const buildExportRows = (ctx: ExportContext): ExportRow[] => {
+  const calibration = getCalibrationLabel(ctx);
+
+  return groupByHand(ctx.measurements).flatMap(group =>
+    group.nails.map(({ measurement: m }) => {
+      const fused = getFusedNail(ctx.fusion, ctx.measurements, m);
+      const dimensions = fused ?? getNailDimensionsMM(m, ctx);
+      const match = dimensions ? matchNailSize(dimensions.widthMM, ctx.sizeChart) : null;
+      const uncertainty = fused?.uncertainty ?? (dimensions && getNailUncertainty(m, dimensions, ctx));
+
+      return {
+        hand: m.hand,
+        finger: m.finger,
+        label: getNailLabel(m),
+        widthMM: round(dimensions?.widthMM ?? null),
+        lengthMM: round(dimensions?.lengthMM ?? null),
+        widthSpreadMM: fused ? round(fused.widthSpreadMM) : dimensions ? 0 : null,
+        lengthSpreadMM: fused ? round(fused.lengthSpreadMM) : dimensions ? 0 : null,
+        widthUncertaintyMM: round(uncertainty?.widthMM ?? null),
+        lengthUncertaintyMM: round(uncertainty?.lengthMM ?? null),
+        confidence: uncertainty?.level ?? null,
+        photoCount: fused?.photoCount ?? 1,
+        size: match?.best.size ?? null,
+        alternateSize: match?.runnerUp?.size ?? null,
+        calibration,
+        boundingBox: m.boundingBox,
+        outline: m.outline ?? null
+      };
+    })
+  );
+};
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+export const escapeCSV = (value: string | number | null) => {
+  if (value === null) return '';
+  // Names (custom size charts, reference objects) are user input; numbers stay numbers
+  const text = typeof value === 'string' && FORMULA_PREFIXES.some(p => value.startsWith(p)) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (ctx: ExportContext): string => {
+  const header = [
+    'Hand', 'Finger', 'Width (mm)', 'Length (mm)', 'Width ± 95% (mm)', 'Length ± 95% (mm)', 'Confidence',
+    'Width spread (mm)', 'Length spread (mm)', 'Photos', `Size (${ctx.sizeChart.name})`, 'Alternate Size', 'Calibration'
+  ];
+  const lines = buildExportRows(ctx).map(row =>
+    [
+      row.hand, row.finger, row.widthMM, row.lengthMM, row.widthUncertaintyMM, row.lengthUncertaintyMM, row.confidence,
+      row.widthSpreadMM, row.lengthSpreadMM, row.photoCount, row.size, row.alternateSize, row.calibration
+    ]
+      .map(escapeCSV)
+      .join(',')
+  );
+  return [header.map(escapeCSV).join(','), ...lines].join('\n');
+};
+
+export const toJSON = (ctx: ExportContext): string => {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    image: ctx.imageSize,
+    calibration: {
+      method: ctx.pixelsPerMM ? ctx.calibrationMethod : null,
+      label: getCalibrationLabel(ctx),
+      pixelsPerMM: ctx.pixelsPerMM ?? null,
+      homography: ctx.homography ?? null
+    },
+    sizeChart: ctx.sizeChart.name,
+    nails: buildExportRows(ctx)
+  }, null, 2);
+};
+
+export const getExportFilename = (extension: string) => {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  return `nailmetrics-${stamp}.${extension}`;
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image for report"));
+  img.src = src;
+});
+
+// Downscaled copy of the analyzed photo with the nail boxes drawn on top
+const renderThumbnail = async (ctx: ExportContext, maxSize = 640): Promise<string> => {
+  const img = await loadImage(ctx.imageSrc);
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+
+  const g = canvas.getContext('2d');
+  if (!g) return ctx.imageSrc;
+  g.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  g.lineWidth = 2;
+  g.strokeStyle = '#facc15';
+  ctx.measurements.forEach(m => {
+    const { x, y, width, height, rotation } = scaleBox(m.boundingBox, scale);
+    g.save();
+    g.translate(x, y);
+    g.rotate(rotation);
+    g.strokeRect(-width / 2, -height / 2, width, height);
+    if (m.outline) {
+      g.beginPath();
+      m.outline.forEach((p, i) => {
+        const px = p.x * width;
+        const py = p.y * height;
+        if (i === 0) g.moveTo(px, py);
+        else g.lineTo(px, py);
+      });
+      g.closePath();
+      g.stroke();
+    }
+    g.restore();
+  });
+
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+const escapeHTML = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+export const buildReportHTML = async (ctx: ExportContext): Promise<string> => {
+  const thumbnail = await renderThumbnail(ctx);
+  const rows = buildExportRows(ctx);
+  const format = (value: number | null) => (value === null ? '—' : value.toFixed(1));
+  const formatUncertainty = (uncertainty: number | null) =>
+    uncertainty !== null ? ` <span class="muted">±${uncertainty.toFixed(1)}</span>` : '';
+
+  const tableRows = rows.map(row => `
+        <tr>
+          <td>${escapeHTML(row.label)}</td>
+          <td>${format(row.widthMM)}${formatUncertainty(row.widthUncertaintyMM)}</td>
+          <td>${format(row.lengthMM)}${formatUncertainty(row.lengthUncertaintyMM)}</td>
+          <td>${row.confidence ? CONFIDENCE_LABELS[row.confidence] : '—'}</td>
+          <td><strong>${escapeHTML(row.size ?? '—')}</strong>${row.alternateSize ? ` <span class="muted">or ${escapeHTML(row.alternateSize)}</span>` : ''}</td>
+        </tr>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>NailMetrics Report</title>
+  <style>
+    body { font-family: Inter, system-ui, sans-serif; color: #111; margin: 32px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .muted { color: #666; font-size: 12px; }
+    .layout { display: flex; gap: 24px; margin-top: 24px; align-items: flex-start; }
+    img { max-width: 320px; border: 1px solid #ddd; border-radius: 8px; }
+    table { border-collapse: collapse; flex: 1; font-size: 14px; }
+    th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #e5e5e5; }
+    th { font-size: 12px; text-transform: uppercase; color: #666; }
+    @media print { body { margin: 12mm; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <h1>NailMetrics Report</h1>
+  <div class="muted">${escapeHTML(new Date().toLocaleString())} · Calibration: ${escapeHTML(getCalibrationLabel(ctx))} · Size chart: ${escapeHTML(ctx.sizeChart.name)}${ctx.fusion ? ' · Fused across photos' : ''} · ± is the 95% range</div>
+  <div class="layout">
+    <img src="${thumbnail}" alt="Analyzed ${LIMB_LABELS[ctx.nailSet ?? 'hands'].toLowerCase()}" />
+    <table>
+      <thead><tr><th>Nail</th><th>Width (mm)</th><th>Length (mm)</th><th>Confidence</th><th>Size</th></tr></thead>
+      <tbody>${tableRows}
+      </tbody>
+    </table>
+  </div>
+  <button class="no-print" onclick="window.print()" style="margin-top:24px">Print</button>
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+};
+
+// Opens the report in a new tab; the caller must invoke this from a user gesture.
+export const openPrintReport = async (ctx: ExportContext) => {
+  // Open synchronously so popup blockers see the click, fill it in once rendered
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) throw new Error("Popup blocked. Allow popups to open the report.");
+
+  let html: string;
+  try {
+    html = await buildReportHTML(ctx);
+  } catch (err) {
+    // Don't leave an empty tab behind
+    reportWindow.close();
+    throw err;
+  }
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { HandSide, NailMeasurement } from '../hooks/useHandDetection';
+import { fuseSessionPhotos, getFusedNail } from './fusion';
+import type { SessionPhoto } from './historyStore';
+
+const PIXELS_PER_MM = 10;
+
+const nail = (hand: HandSide, handIndex: number, widthMM: number): NailMeasurement => ({
+  finger: 'Index',
+  hand,
+  handednessScore: 1,
+  handIndex,
+  width: widthMM * PIXELS_PER_MM,
+  length: 120,
+  boundingBox: { x: 100, y: 100, width: widthMM * PIXELS_PER_MM, height: 120, rotation: 0 }
+});
+
+const photo = (id: string, measurements: NailMeasurement[]): SessionPhoto => ({
+  id,
+  imageSrc: '',
+  imageSize: { width: 1000, height: 1000 },
+  measurements,
+  pixelsPerMM: PIXELS_PER_MM,
+  calibrationMethod: 'reference',
+  boxSpace: 'image-pixels'
+});
+
+describe('fuseSessionPhotos', () => {
+  it('matches nails across photos by side and finger, whatever their hand index', () => {
+    const fusion = fuseSessionPhotos([
+      photo('a', [nail('Left', 0, 12)]),
+      photo('b', [nail('Left', 1, 13)])
+    ]);
+    const fused = fusion.get('Left Index');
+    expect(fused?.photoCount).toBe(2);
+    expect(fused?.widthMM).toBeCloseTo(12.5);
+    expect(fused?.duplicateCount).toBe(0);
+  });
+
+  it('skips a photo that has the same side and finger twice instead of averaging it in', () => {
+    // Two "left" hands in photo b: one of them is really the right hand
+    const fusion = fuseSessionPhotos([
+      photo('a', [nail('Left', 0, 12), nail('Right', 1, 15)]),
+      photo('b', [nail('Left', 0, 12.4), nail('Left', 1, 15.2)]),
+      photo('c', [nail('Left', 0, 12.2)])
+    ]);
+    const left = fusion.get('Left Index');
+    expect(left?.photoCount).toBe(2);
+    expect(left?.widthMM).toBeCloseTo(12.1);
+    expect(left?.duplicateCount).toBe(1);
+    expect(fusion.get('Right Index')?.photoCount).toBe(1);
+  });
+
+  it('leaves nails of an ambiguous photo on their own measurement', () => {
+    const ambiguous = [nail('Left', 0, 12), nail('Left', 1, 15)];
+    const fusion = fuseSessionPhotos([photo('a', ambiguous), photo('b', [nail('Left', 0, 12.2)])]);
+    expect(getFusedNail(fusion, ambiguous, ambiguous[0])).toBeUndefined();
+
+    const single = [nail('Left', 0, 12.2)];
+    expect(getFusedNail(fusion, single, single[0])?.widthMM).toBeCloseTo(12.2);
+  });
+});
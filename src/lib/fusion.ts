@@ -0,0 +1,163 @@
+import type { HandSide, NailMeasurement } from '../hooks/useHandDetection';
+import { isMeasuredCalibration } from './calibration';
+import { getActiveScaleEstimate } from './calibrationSources';
+import type { SessionPhoto } from './historyStore';
+import { getNailDimensionsMM } from './measurement';
+import { getConfidenceLevel, getNailUncertainty, type NailUncertainty } from './uncertainty';
+
+export interface FusedNail {
+  // Side and finger, see getFusionKey ("Left Index")
+  key: string;
+  hand: HandSide;
+  finger: string;
+  widthMM: number;
+  lengthMM: number;
+  // Standard deviation across the photos that were kept
+  widthSpreadMM: number;
+  lengthSpreadMM: number;
+  // Photos contributing to the fused value, and photos dropped as outliers
+  photoCount: number;
+  rejectedCount: number;
+  // Photos left out because they had this side and finger more than once
+  duplicateCount: number;
+  // 95% range of the fused value: scatter between photos plus each photo's own error
+  uncertainty: NailUncertainty;
+}
+
+export type NailFusion = Map<string, FusedNail>;
+
+// A photo is an outlier when it is this many robust standard deviations from the median...
+const OUTLIER_SIGMAS = 3;
+// ...but never for deviations this small (identical photos would otherwise reject everything)
+const MIN_OUTLIER_MM = 0.5;
+// MAD -> standard deviation for normally distributed values
+const MAD_TO_SIGMA = 1.4826;
+// Two-sided 95% interval
+const Z_95 = 1.96;
+
+interface Sample {
+  widthMM: number;
+  lengthMM: number;
+  // This photo's own 95% error
+  widthErrorMM: number;
+  lengthErrorMM: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+const isInlier = (values: number[]) => {
+  const center = median(values);
+  const mad = median(values.map(v => Math.abs(v - center)));
+  const limit = Math.max(MIN_OUTLIER_MM, OUTLIER_SIGMAS * MAD_TO_SIGMA * mad);
+  return (value: number) => Math.abs(value - center) <= limit;
+};
+
+// Photos are matched by side and finger only; which detected hand a nail came from
+// (handIndex) differs from photo to photo
+export const getFusionKey = (m: Pick<NailMeasurement, 'hand' | 'finger'>) => `${m.hand} ${m.finger}`;
+
+// Side and finger pairs held by more than one nail of a photo, e.g. two left hands or
+// a side fixed on only one of them. Those nails can't be told apart, so they are not fused.
+const getDuplicateKeys = (measurements: NailMeasurement[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  measurements.forEach(m => {
+    const key = getFusionKey(m);
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  });
+  return duplicates;
+};
+
+// Fused value for a nail of one photo, unless that photo has its side and finger twice
+export const getFusedNail = (
+  fusion: NailFusion | undefined,
+  measurements: NailMeasurement[],
+  m: NailMeasurement
+): FusedNail | undefined => {
+  const key = getFusionKey(m);
+  return getDuplicateKeys(measurements).has(key) ? undefined : fusion?.get(key);
+};
+
+/**
+ * Fuses the per-finger sizes of every photo in a session.
+ * A photo is dropped for a finger when its width or length is an outlier (median/MAD test);
+ * the rest are averaged. Photos calibrated with a reference object win over thumb estimates.
+ * Each photo adds at most one sample per side and finger; duplicates are skipped and counted.
+ */
+export const fuseSessionPhotos = (photos: SessionPhoto[]): NailFusion => {
+  const measured = photos.filter(p => isMeasuredCalibration(p.calibrationMethod));
+  const sources = measured.length > 0 ? measured : photos;
+
+  const samples = new Map<string, { hand: HandSide; finger: string; values: Sample[] }>();
+  const duplicateCounts = new Map<string, number>();
+  sources.forEach(photo => {
+    const duplicates = getDuplicateKeys(photo.measurements);
+    duplicates.forEach(key => duplicateCounts.set(key, (duplicateCounts.get(key) ?? 0) + 1));
+
+    const uncertaintyContext = { ...photo, scaleEstimate: getActiveScaleEstimate(photo) };
+    photo.measurements.forEach(m => {
+      const key = getFusionKey(m);
+      if (duplicates.has(key)) return;
+      const dimensions = getNailDimensionsMM(m, photo);
+      if (!dimensions) return;
+      const uncertainty = getNailUncertainty(m, dimensions, uncertaintyContext);
+      const entry = samples.get(key) ?? { hand: m.hand, finger: m.finger, values: [] };
+      entry.values.push({
+        ...dimensions,
+        widthErrorMM: uncertainty?.widthMM ?? 0,
+        lengthErrorMM: uncertainty?.lengthMM ?? 0
+      });
+      samples.set(key, entry);
+    });
+  });
+
+  const fusion: NailFusion = new Map();
+  samples.forEach(({ hand, finger, values }, key) => {
+    const widthOk = isInlier(values.map(v => v.widthMM));
+    const lengthOk = isInlier(values.map(v => v.lengthMM));
+    const kept = values.filter(v => widthOk(v.widthMM) && lengthOk(v.lengthMM));
+    // Width and length may disagree on which photos are outliers; never drop all of them
+    const used = kept.length > 0 ? kept : values;
+
+    const widthMM = mean(used.map(v => v.widthMM));
+    const lengthMM = mean(used.map(v => v.lengthMM));
+    const widthSpreadMM = standardDeviation(used.map(v => v.widthMM));
+    const lengthSpreadMM = standardDeviation(used.map(v => v.lengthMM));
+    // Scatter averages down with more photos; each photo's scale error is treated as
+    // shared (same hand, often the same estimator), so it does not
+    const widthErrorMM = Math.hypot(Z_95 * widthSpreadMM / Math.sqrt(used.length), mean(used.map(v => v.widthErrorMM)));
+    const lengthErrorMM = Math.hypot(Z_95 * lengthSpreadMM / Math.sqrt(used.length), mean(used.map(v => v.lengthErrorMM)));
+
+    fusion.set(key, {
+      key,
+      hand,
+      finger,
+      widthMM,
+      lengthMM,
+      widthSpreadMM,
+      lengthSpreadMM,
+      photoCount: used.length,
+      rejectedCount: values.length - used.length,
+      duplicateCount: duplicateCounts.get(key) ?? 0,
+      uncertainty: {
+        widthMM: widthErrorMM,
+        lengthMM: lengthErrorMM,
+        level: getConfidenceLevel(widthMM > 0 ? widthErrorMM / widthMM : Infinity)
+      }
+    });
+  });
+
+  return fusion;
+};
@@ -0,0 +1,30 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Orders four corners as top-left, top-right, bottom-right, bottom-left (clockwise on screen)
+export const orderQuadCorners = (corners: Point[]): Point[] => {
+  const cx = corners.reduce((sum, p) => sum + p.x, 0) / corners.length;
+  const cy = corners.reduce((sum, p) => sum + p.y, 0) / corners.length;
+  const byAngle = [...corners].sort(
+    (a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)
+  );
+  // Start from the corner closest to the top-left
+  const start = byAngle.reduce((best, p, i) => (p.x + p.y < byAngle[best].x + byAngle[best].y ? i : best), 0);
+  return [...byAngle.slice(start), ...byAngle.slice(0, start)];
+};
+
+// True when every turn along the outline bends the same way: no crossed edges, no dent
+export const isConvexPolygon = (points: Point[]) => {
+  const turns = points.map((p, i) => {
+    const next = points[(i + 1) % points.length];
+    const after = points[(i + 2) % points.length];
+    return (next.x - p.x) * (after.y - next.y) - (next.y - p.y) * (after.x - next.x);
+  });
+  return turns.every(t => t > 0) || turns.every(t => t < 0);
+};
@@ -0,0 +1,51 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+export type Delegate = 'GPU' | 'CPU';
+// 'auto' tries the GPU first and falls back to the CPU when WebGL is unusable
+export type DelegatePreference = 'auto' | Delegate;
+
+export interface LoadedLandmarker {
+  landmarker: HandLandmarker;
+  // Delegate that actually loaded
+  delegate: Delegate;
+  // Set when 'auto' had to fall back from the GPU
+  fellBack: boolean;
+}
+
+// Model and WASM are served from the app's own build output (see
+// scripts/fetch-mediapipe-assets.mjs) so detection works offline and only
+// changes when the pinned versions are bumped. `baseUrl` is the app's base
+// (document.baseURI); workers pass it in since their own URL points into assets/.
+export const getLandmarkerAssets = (baseUrl: string) => ({
+  modelAssetPath: new URL('models/hand_landmarker.task', baseUrl).href,
+  wasmPath: new URL('mediapipe/wasm', baseUrl).href
+});
+
+// Shared by photo analysis (IMAGE, in a worker) and the live camera preview (VIDEO)
+export const createHandLandmarker = async (
+  runningMode: 'IMAGE' | 'VIDEO',
+  baseUrl: string,
+  preference: DelegatePreference = 'auto'
+): Promise<LoadedLandmarker> => {
+  const { modelAssetPath, wasmPath } = getLandmarkerAssets(baseUrl);
+  const vision = await FilesetResolver.forVisionTasks(wasmPath);
+  const create = (delegate: Delegate) => HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath,
+      delegate
+    },
+    runningMode,
+    numHands: 2
+  });
+
+  if (preference !== 'auto') {
+    return { landmarker: await create(preference), delegate: preference, fellBack: false };
+  }
+
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU', fellBack: false };
+  } catch (err) {
+    console.warn("GPU delegate failed, retrying on CPU:", err);
+    return { landmarker: await create('CPU'), delegate: 'CPU', fellBack: true };
+  }
+};
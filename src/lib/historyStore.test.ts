@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import { migrateBoxSpace, type SessionPhoto } from './historyStore';
+
+// A nail as records before the pixel model stored it: fractions of the image size
+const legacyNail: NailMeasurement = {
+  finger: 'Index',
+  hand: 'Left',
+  handednessScore: 0.9,
+  handIndex: 0,
+  width: 0.02,
+  length: 0.03,
+  boundingBox: { x: 0.5, y: 0.25, width: 0.02, height: 0.03, rotation: 0.4 }
+};
+
+const legacyPhoto = (imageSize: SessionPhoto['imageSize']): SessionPhoto => ({
+  id: 'photo',
+  imageSrc: 'data:image/jpeg;base64,',
+  imageSize,
+  measurements: [legacyNail],
+  detectedMeasurements: [legacyNail],
+  calibrationMethod: null
+});
+
+describe('migrateBoxSpace', () => {
+  it.each([
+    ['portrait', { width: 600, height: 1000 }],
+    ['landscape', { width: 1000, height: 600 }]
+  ])('moves legacy normalized boxes of a %s photo to image pixels', (_, imageSize) => {
+    const migrated = migrateBoxSpace(legacyPhoto(imageSize));
+    expect(migrated.boxSpace).toBe('image-pixels');
+    const [nail] = migrated.measurements;
+    expect(nail.boundingBox).toEqual({
+      x: 0.5 * imageSize.width,
+      y: 0.25 * imageSize.height,
+      width: 0.02 * imageSize.width,
+      height: 0.03 * imageSize.height,
+      rotation: 0.4
+    });
+    expect(nail.width).toBeCloseTo(0.02 * imageSize.width);
+    expect(nail.length).toBeCloseTo(0.03 * imageSize.height);
+    expect(migrated.detectedMeasurements).toEqual(migrated.measurements);
+  });
+
+  it('leaves photos already in image pixels untouched', () => {
+    const photo = { ...legacyPhoto({ width: 1000, height: 600 }), boxSpace: 'image-pixels' as const };
+    expect(migrateBoxSpace(photo)).toBe(photo);
+  });
+
+  it('keeps photos without detected boxes that way', () => {
+    const photo = { ...legacyPhoto({ width: 600, height: 1000 }), detectedMeasurements: undefined };
+    expect(migrateBoxSpace(photo).detectedMeasurements).toBeUndefined();
+  });
+});
@@ -0,0 +1,206 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import type { ScaleEstimate } from './anthropometry';
+import { fromNormalizedBox } from './boxGeometry';
+import type { CalibrationMethod } from './calibration';
+import type { QualityIssue } from './captureQuality';
+import type { Homography } from './homography';
+import type { NailSet } from './nails';
+import type { WorldScaleEstimate } from './worldScale';
+
+// One photo of a session, with its own detection and calibration
+export interface SessionPhoto {
+  id: string;
+  // Data URL of the analyzed photo
+  imageSrc: string;
+  imageSize: { width: number; height: number };
+  measurements: NailMeasurement[];
+  pixelsPerMM?: number;
+  // Set by card perspective calibration; takes precedence over pixelsPerMM
+  homography?: Homography;
+  // Scale candidates kept side by side so the calibration panel can compare them:
+  // finger proportions (follows box edits), world landmarks (fixed at detection)
+  // and the last coin/card calibration
+  scaleEstimate?: ScaleEstimate;
+  worldScale?: WorldScaleEstimate;
+  referenceCalibration?: MeasuredCalibration;
+  calibrationMethod: CalibrationMethod | null;
+  // Which reference object was used, e.g. "10 NTD (26 mm)"
+  calibrationDetail?: string;
+  // Capture quality warnings found when the photo was analyzed
+  qualityIssues?: QualityIssue[];
+  // Boxes as the detector returned them, so edited nails can be reverted
+  detectedMeasurements?: NailMeasurement[];
+  // Unit of the nail boxes; records without it predate the pixel model (normalized boxes)
+  boxSpace?: 'image-pixels';
+  // Toenail photos start from a template instead of detection; absent means fingernails
+  nailSet?: NailSet;
+}
+
+// Result of a coin/card calibration
+export type MeasuredCalibration = Pick<SessionPhoto, 'pixelsPerMM' | 'homography' | 'calibrationMethod' | 'calibrationDetail'>;
+
+// The record's own image/calibration fields are the session's first photo
+export interface AnalysisRecord extends SessionPhoto {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Client profile this analysis is attached to
+  clientId?: string;
+  // Further photos of the same hands, fused with the first one
+  extraPhotos?: SessionPhoto[];
+}
+
+export interface ClientProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'nailmetrics';
+const DB_VERSION = 2;
+const ANALYSES_STORE = 'analyses';
+const CLIENTS_STORE = 'clients';
+const CLIENT_INDEX = 'clientId';
+
+type StoreName = typeof ANALYSES_STORE | typeof CLIENTS_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // v1: analyses
+        const analyses = db.objectStoreNames.contains(ANALYSES_STORE)
+          ? request.transaction!.objectStore(ANALYSES_STORE)
+          : db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        // v2: client profiles
+        if (!analyses.indexNames.contains(CLIENT_INDEX)) {
+          analyses.createIndex(CLIENT_INDEX, 'clientId');
+        }
+        if (!db.objectStoreNames.contains(CLIENTS_STORE)) {
+          db.createObjectStore(CLIENTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Normalized boxes (fractions of the image width/height) -> image pixels
+export const migrateBoxSpace = <T extends SessionPhoto>(photo: T): T => {
+  if (photo.boxSpace === 'image-pixels') return photo;
+  const { width, height } = photo.imageSize;
+  const toPixels = (m: NailMeasurement): NailMeasurement => ({
+    ...m,
+    width: m.width * width,
+    length: m.length * height,
+    boundingBox: fromNormalizedBox(m.boundingBox, photo.imageSize)
+  });
+  return {
+    ...photo,
+    measurements: photo.measurements.map(toPixels),
+    detectedMeasurements: photo.detectedMeasurements?.map(toPixels),
+    boxSpace: 'image-pixels'
+  };
+};
+
+const normalizeRecord = (stored: AnalysisRecord): AnalysisRecord => {
+  let record = migrateBoxSpace(stored);
+  if (record.extraPhotos) {
+    record = { ...record, extraPhotos: record.extraPhotos.map(migrateBoxSpace) };
+  }
+  // Records saved before the reference-object catalog used a fixed 10 NTD coin
+  if ((record.calibrationMethod as string) === 'coin') {
+    return { ...record, calibrationMethod: 'reference', calibrationDetail: '10 NTD (26 mm)' };
+  }
+  return record;
+};
+
+// All photos of a session, first photo included (it shares the record's id)
+export const getSessionPhotos = (record: AnalysisRecord): SessionPhoto[] => {
+  const {
+    id, imageSrc, imageSize, measurements, pixelsPerMM, homography, calibrationMethod, calibrationDetail,
+    qualityIssues, detectedMeasurements, boxSpace, scaleEstimate, worldScale, referenceCalibration, nailSet
+  } = record;
+  return [
+    {
+      id, imageSrc, imageSize, measurements, pixelsPerMM, homography, calibrationMethod, calibrationDetail,
+      qualityIssues, detectedMeasurements, boxSpace, scaleEstimate, worldScale, referenceCalibration, nailSet
+    },
+    ...(record.extraPhotos ?? [])
+  ];
+};
+
+// Newest first
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await runRequest<AnalysisRecord[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  return records.map(normalizeRecord).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAnalysis = async (id: string) => {
+  const record = await runRequest<AnalysisRecord | undefined>(ANALYSES_STORE, 'readonly', store => store.get(id));
+  return record && normalizeRecord(record);
+};
+
+export const saveAnalysis = async (record: AnalysisRecord) => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.put({ ...record, updatedAt: Date.now() }));
+};
+
+export const renameAnalysis = async (id: string, name: string) => {
+  const record = await getAnalysis(id);
+  if (!record) throw new Error("Analysis not found");
+  await saveAnalysis({ ...record, name });
+};
+
+export const deleteAnalysis = async (id: string) => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Oldest first, for timelines
+export const listAnalysesForClient = async (clientId: string): Promise<AnalysisRecord[]> => {
+  const records = await runRequest<AnalysisRecord[]>(
+    ANALYSES_STORE, 'readonly', store => store.index(CLIENT_INDEX).getAll(clientId)
+  );
+  return records.map(normalizeRecord).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const listClients = async (): Promise<ClientProfile[]> => {
+  const clients = await runRequest<ClientProfile[]>(CLIENTS_STORE, 'readonly', store => store.getAll());
+  return clients.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveClient = async (client: ClientProfile) => {
+  await runRequest(CLIENTS_STORE, 'readwrite', store => store.put(client));
+};
+
+// Analyses of a deleted client are kept, just detached from the profile
+export const deleteClient = async (id: string) => {
+  const analyses = await listAnalysesForClient(id);
+  await Promise.all(analyses.map(record => saveAnalysis({ ...record, clientId: undefined })));
+  await runRequest(CLIENTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const getDefaultAnalysisName = (date = new Date()) =>
+  `Analysis ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from './geometry';
+import { applyHomography, calibrateFromCard, computeHomography, orderCardCorners } from './homography';
+
+// ID-1 bank card
+const CARD = { widthMM: 85.6, heightMM: 53.98 };
+const CARD_CORNERS_MM: Point[] = [
+  { x: 0, y: 0 }, { x: CARD.widthMM, y: 0 }, { x: CARD.widthMM, y: CARD.heightMM }, { x: 0, y: CARD.heightMM }
+];
+
+// Photo of the card: `toImage` maps card millimeters to image pixels
+const photograph = (toImage: (p: Point) => Point) => CARD_CORNERS_MM.map(toImage);
+
+const rotated = (pixelsPerMM: number, angle: number, offset: Point) => (p: Point): Point => ({
+  x: offset.x + pixelsPerMM * (p.x * Math.cos(angle) - p.y * Math.sin(angle)),
+  y: offset.y + pixelsPerMM * (p.x * Math.sin(angle) + p.y * Math.cos(angle))
+});
+
+// Camera tilted away from the card: the far (top) edge comes out shorter
+const TILT = computeHomography(CARD_CORNERS_MM, [
+  { x: 420, y: 300 }, { x: 780, y: 310 }, { x: 860, y: 620 }, { x: 340, y: 600 }
+])!;
+const tilted = (p: Point) => applyHomography(TILT, p);
+
+// Distance in mm between two card points, measured through the calibration
+const measureMM = (corners: Point[], toImage: (p: Point) => Point, a: Point, b: Point) => {
+  const calibration = calibrateFromCard(corners, CARD);
+  expect(calibration).not.toBeNull();
+  const pa = applyHomography(calibration!.homography, toImage(a));
+  const pb = applyHomography(calibration!.homography, toImage(b));
+  return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+};
+
+describe('calibrateFromCard', () => {
+  it('maps an upright card onto its millimeters', () => {
+    const toImage = rotated(10, 0, { x: 100, y: 200 });
+    const calibration = calibrateFromCard(photograph(toImage), CARD);
+    expect(calibration?.pixelsPerMM).toBeCloseTo(10);
+    const p = applyHomography(calibration!.homography, toImage({ x: 30, y: 20 }));
+    expect(p.x).toBeCloseTo(30);
+    expect(p.y).toBeCloseTo(20);
+  });
+
+  it.each([
+    ['rotated', rotated(8, Math.PI / 6, { x: 500, y: 100 })],
+    ['rotated past 45°', rotated(8, (2 * Math.PI) / 3, { x: 900, y: 300 })],
+    ['tilted', tilted]
+  ])('measures true distances on a %s card', (_, toImage) => {
+    const corners = photograph(toImage);
+    expect(measureMM(corners, toImage, { x: 10, y: 10 }, { x: 70, y: 10 })).toBeCloseTo(60, 1);
+    expect(measureMM(corners, toImage, { x: 20, y: 5 }, { x: 20, y: 45 })).toBeCloseTo(40, 1);
+    expect(measureMM(corners, toImage, { x: 0, y: 0 }, { x: 30, y: 40 })).toBeCloseTo(50, 1);
+  });
+
+  it('gives the same plane whatever order the corners arrive in', () => {
+    const ordered = photograph(tilted);
+    const [tl, tr, br, bl] = ordered;
+    // A corner dragged past its neighbour: the quad crosses over itself as given
+    const crossed = [tl, br, tr, bl];
+    const reference = calibrateFromCard(ordered, CARD)!;
+    const calibration = calibrateFromCard(crossed, CARD);
+    expect(calibration).not.toBeNull();
+    calibration!.homography.forEach((value, i) => expect(value).toBeCloseTo(reference.homography[i]));
+    expect(measureMM(crossed, tilted, { x: 10, y: 10 }, { x: 70, y: 10 })).toBeCloseTo(60, 1);
+  });
+
+  it('rejects a quad with a dent', () => {
+    // Fourth corner dragged inside the triangle of the other three
+    expect(calibrateFromCard([{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 200, y: 300 }, { x: 200, y: 100 }], CARD)).toBeNull();
+  });
+
+  it('rejects a card too small to measure', () => {
+    expect(calibrateFromCard(photograph(rotated(0.2, 0, { x: 100, y: 100 })), CARD)).toBeNull();
+  });
+});
+
+describe('orderCardCorners', () => {
+  it('orders corners as top-left, top-right, bottom-right, bottom-left', () => {
+    const tl = { x: 100, y: 100 };
+    const tr = { x: 400, y: 120 };
+    const br = { x: 380, y: 300 };
+    const bl = { x: 90, y: 280 };
+    expect(orderCardCorners([br, tl, bl, tr])).toEqual([tl, tr, br, bl]);
+  });
+});
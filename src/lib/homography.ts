@@ -0,0 +1,113 @@
+import { distance, isConvexPolygon, orderQuadCorners, type Point } from './geometry';
+
+// Row-major 3x3 matrix
+export type Homography = number[];
+
+// Solves A x = b in place (Gaussian elimination with partial pivoting)
+const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    if (Math.abs(A[pivot][col]) < 1e-12) return null;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  return x;
+};
+
+/**
+ * Direct linear transform for exactly four correspondences (h33 fixed to 1).
+ * Returns null when the points are degenerate (three of them collinear).
+ */
+export const computeHomography = (src: Point[], dst: Point[]): Homography | null => {
+  if (src.length !== 4 || dst.length !== 4) return null;
+
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(A, b);
+  return h ? [...h, 1] : null;
+};
+
+export const applyHomography = (H: Homography, p: Point): Point => {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  return {
+    x: (H[0] * p.x + H[1] * p.y + H[2]) / w,
+    y: (H[3] * p.x + H[4] * p.y + H[5]) / w
+  };
+};
+
+// Shorter card sides than this (image pixels) are too coarse to calibrate from
+const MIN_CARD_SIDE_PX = 20;
+
+// Corners in any order (e.g. after one was dragged past another) -> TL, TR, BR, BL.
+// Null when they can't outline a card: a dent (one corner inside the other three)
+// or a side too short to measure.
+export const orderCardCorners = (corners: Point[]): Point[] | null => {
+  if (corners.length !== 4) return null;
+  const ordered = orderQuadCorners(corners);
+  if (!isConvexPolygon(ordered)) return null;
+  const shortestSide = Math.min(...ordered.map((p, i) => distance(p, ordered[(i + 1) % 4])));
+  return shortestSide >= MIN_CARD_SIDE_PX ? ordered : null;
+};
+
+export interface CardCalibration {
+  // Image pixels -> millimeters on the card plane
+  homography: Homography;
+  // Average scale along the card edges, for code that needs a single scalar
+  pixelsPerMM: number;
+}
+
+/**
+ * Maps card corners (image pixels, any order) onto a physical card.
+ * Whichever pair of sides looks longer in the photo is matched to the long edge.
+ * Returns null for corners that don't outline a usable card (see orderCardCorners).
+ */
+export const calibrateFromCard = (
+  corners: Point[],
+  card: { widthMM: number; heightMM: number }
+): CardCalibration | null => {
+  const ordered = orderCardCorners(corners);
+  if (!ordered) return null;
+  const [tl, tr, br, bl] = ordered;
+  const horizontalPx = distance(tl, tr) + distance(bl, br);
+  const verticalPx = distance(tl, bl) + distance(tr, br);
+
+  const longMM = Math.max(card.widthMM, card.heightMM);
+  const shortMM = Math.min(card.widthMM, card.heightMM);
+  const [w, h] = horizontalPx >= verticalPx ? [longMM, shortMM] : [shortMM, longMM];
+
+  const homography = computeHomography(ordered, [
+    { x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h }
+  ]);
+  if (!homography) return null;
+
+  return {
+    homography,
+    pixelsPerMM: (horizontalPx + verticalPx) / (2 * (w + h))
+  };
+};
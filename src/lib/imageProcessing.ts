@@ -0,0 +1,117 @@
+// Small, dependency-free pixel helpers shared by the calibration and analysis tools.
+// All images are single-channel Float32Arrays in row-major order.
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+  // Working pixels per source pixel (<= 1 when downscaled)
+  scale: number;
+}
+
+export interface Gradients {
+  gx: Float32Array;
+  gy: Float32Array;
+  magnitude: Float32Array;
+}
+
+type DrawableImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Workers have neither HTMLImageElement nor document; they get ImageBitmaps
+const isImageElement = (source: DrawableImage): source is HTMLImageElement =>
+  typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement;
+
+const getSourceSize = (source: DrawableImage) =>
+  isImageElement(source)
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+const get2DContext = (width: number, height: number) => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Draws the source into a canvas no larger than maxSize on its longest side
+export const getImageData = (source: DrawableImage, maxSize = Infinity) => {
+  const { width, height } = getSourceSize(source);
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvasWidth = Math.max(1, Math.round(width * scale));
+  const canvasHeight = Math.max(1, Math.round(height * scale));
+
+  const ctx = get2DContext(canvasWidth, canvasHeight);
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(source, 0, 0, canvasWidth, canvasHeight);
+
+  return { imageData: ctx.getImageData(0, 0, canvasWidth, canvasHeight), scale };
+};
+
+// Rec. 601 luma, 0-255
+export const toGrayscale = (imageData: ImageData, scale = 1): GrayImage => {
+  const { data, width, height } = imageData;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height, scale };
+};
+
+export const loadGrayscale = (source: DrawableImage, maxSize = Infinity): GrayImage => {
+  const { imageData, scale } = getImageData(source, maxSize);
+  return toGrayscale(imageData, scale);
+};
+
+// 3x3 box blur (edges clamped) to suppress sensor noise before differentiation
+export const boxBlur = (image: GrayImage): GrayImage => {
+  const { data, width, height } = image;
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          sum += data[yy * width + xx];
+        }
+      }
+      out[y * width + x] = sum / 9;
+    }
+  }
+  return { ...image, data: out };
+};
+
+// Sobel operator; border pixels are left at zero
+export const sobel = (image: GrayImage): Gradients => {
+  const { data, width, height } = image;
+  const gx = new Float32Array(data.length);
+  const gy = new Float32Array(data.length);
+  const magnitude = new Float32Array(data.length);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = data[i - width - 1], t = data[i - width], tr = data[i - width + 1];
+      const l = data[i - 1], r = data[i + 1];
+      const bl = data[i + width - 1], b = data[i + width], br = data[i + width + 1];
+
+      const dx = (tr + 2 * r + br) - (tl + 2 * l + bl);
+      const dy = (bl + 2 * b + br) - (tl + 2 * t + tr);
+      gx[i] = dx;
+      gy[i] = dy;
+      magnitude[i] = Math.hypot(dx, dy);
+    }
+  }
+
+  return { gx, gy, magnitude };
+};
+
+// Value below which `fraction` of the samples fall (fraction in 0-1)
+export const percentile = (values: Float32Array, fraction: number) => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
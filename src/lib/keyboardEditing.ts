@@ -0,0 +1,55 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+
+// One arrow-key press moves/resizes by this much...
+const STEP_MM = 0.1;
+// ...or by one image pixel while the photo is not calibrated
+const STEP_PX = 1;
+// Alt+arrow rotation step
+const STEP_DEG = 0.5;
+// Boxes never shrink below this (image pixels)
+const MIN_SIZE = 2;
+
+export const getKeyboardStepLabel = (pixelsPerMM?: number) => (pixelsPerMM ? `${STEP_MM} mm` : `${STEP_PX} px`);
+
+// One step in image pixels
+export const getKeyboardStep = (pixelsPerMM?: number) => (pixelsPerMM ? STEP_MM * pixelsPerMM : STEP_PX);
+
+const ARROWS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }
+};
+
+export const isArrowKey = (key: string) => key in ARROWS;
+
+// Arrow: move. Shift+arrow: width (←/→) and height (↑/↓) around the center.
+// Alt+←/→: rotate. Returns null for keys that don't edit the box.
+export const applyArrowKey = (
+  m: NailMeasurement,
+  e: { key: string; shiftKey: boolean; altKey: boolean },
+  step: number
+): NailMeasurement | null => {
+  const arrow = ARROWS[e.key];
+  if (!arrow) return null;
+  const box = m.boundingBox;
+
+  if (e.altKey) {
+    if (arrow.x === 0) return null;
+    return { ...m, boundingBox: { ...box, rotation: box.rotation + arrow.x * STEP_DEG * (Math.PI / 180) } };
+  }
+
+  if (e.shiftKey) {
+    return {
+      ...m,
+      boundingBox: {
+        ...box,
+        width: Math.max(MIN_SIZE, box.width + arrow.x * step),
+        // Up grows the box, like dragging the top edge up
+        height: Math.max(MIN_SIZE, box.height - arrow.y * step)
+      }
+    };
+  }
+
+  return { ...m, boundingBox: { ...box, x: box.x + arrow.x * step, y: box.y + arrow.y * step } };
+};
@@ -0,0 +1,139 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import type { Delegate, DelegatePreference } from './handLandmarker';
+
+// What the worker sends back for one photo (plain arrays, structured-clone safe)
+export type LandmarkerOutput = Pick<HandLandmarkerResult, 'landmarks' | 'worldLandmarks' | 'handedness'>;
+
+// How the model came up inside the worker, for the diagnostics panel
+export interface LandmarkerLoadInfo {
+  delegate: Delegate;
+  fellBack: boolean;
+  loadMs: number;
+}
+
+export interface LandmarkerDetection {
+  output: LandmarkerOutput;
+  // Time spent in landmarker.detect() inside the worker
+  inferenceMs: number;
+}
+
+export type LandmarkerRequest =
+  | { type: 'init'; baseUrl: string; delegate: DelegatePreference }
+  | { type: 'detect'; id: number; image: ImageBitmap }
+  // Nail segmentation of the heuristic boxes (image pixels) found for the same photo
+  | { type: 'segment'; id: number; image: ImageBitmap; measurements: NailMeasurement[] };
+
+export type LandmarkerResponse =
+  | { type: 'ready'; info: LandmarkerLoadInfo }
+  // The model itself failed to load (on every delegate that was tried)
+  | { type: 'load-error'; message: string }
+  | { type: 'result'; id: number; detection: LandmarkerDetection }
+  | { type: 'segmented'; id: number; measurements: NailMeasurement[] }
+  | { type: 'error'; id: number; message: string };
+
+// Successful answers to a single detect/segment request
+type FrameResponse = Extract<LandmarkerResponse, { type: 'result' | 'segmented' }>;
+
+export interface LandmarkerWorker {
+  // Resolves once the model is loaded inside the worker
+  ready: Promise<LandmarkerLoadInfo>;
+  // The bitmap is transferred, so it is unusable by the caller afterwards.
+  // Aborting rejects right away; the worker still finishes that frame but the result is dropped.
+  detect: (image: ImageBitmap, signal?: AbortSignal) => Promise<LandmarkerDetection>;
+  // Refined boxes and outlines for the detected nails; same bitmap and abort rules as detect
+  segment: (image: ImageBitmap, measurements: NailMeasurement[], signal?: AbortSignal) => Promise<NailMeasurement[]>;
+  terminate: () => void;
+}
+
+const createAbortError = () => new DOMException("Hand detection was cancelled", 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// IMAGE-mode hand landmarker and nail segmentation running off the main thread,
+// so large photos don't freeze the UI while MediaPipe and the segmenter work
+export const createLandmarkerWorker = (delegate: DelegatePreference): LandmarkerWorker => {
+  const worker = new Worker(new URL('../workers/handLandmarker.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: FrameResponse) => void; reject: (err: unknown) => void }>();
+  let nextId = 0;
+
+  let resolveReady: (info: LandmarkerLoadInfo) => void = () => {};
+  let rejectReady: (err: unknown) => void = () => {};
+  const ready = new Promise<LandmarkerLoadInfo>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+
+  const failAll = (err: unknown) => {
+    rejectReady(err);
+    pending.forEach(request => request.reject(err));
+    pending.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent<LandmarkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'ready') {
+      resolveReady(message.info);
+      return;
+    }
+    if (message.type === 'load-error') {
+      failAll(new Error(message.message));
+      return;
+    }
+    const request = pending.get(message.id);
+    pending.delete(message.id);
+    if (message.type === 'error') request?.reject(new Error(message.message));
+    else request?.resolve(message);
+  };
+  worker.onerror = (e) => failAll(new Error(e.message || "Hand landmarker worker crashed"));
+
+  const init: LandmarkerRequest = { type: 'init', baseUrl: document.baseURI, delegate };
+  worker.postMessage(init);
+
+  // Posts one request for a photo; the bitmap is transferred with it
+  const send = (image: ImageBitmap, toRequest: (id: number) => LandmarkerRequest, signal?: AbortSignal) => new Promise<FrameResponse>((resolve, reject) => {
+    if (signal?.aborted) {
+      image.close();
+      reject(createAbortError());
+      return;
+    }
+
+    const id = nextId++;
+    const onAbort = () => {
+      pending.delete(id);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pending.set(id, {
+      resolve: response => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: err => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    });
+
+    worker.postMessage(toRequest(id), [image]);
+  });
+
+  const detect = async (image: ImageBitmap, signal?: AbortSignal) => {
+    const response = await send(image, id => ({ type: 'detect', id, image }), signal);
+    if (response.type !== 'result') throw new Error(`Unexpected ${response.type} reply to detect`);
+    return response.detection;
+  };
+
+  const segment = async (image: ImageBitmap, measurements: NailMeasurement[], signal?: AbortSignal) => {
+    const response = await send(image, id => ({ type: 'segment', id, image, measurements }), signal);
+    if (response.type !== 'segmented') throw new Error(`Unexpected ${response.type} reply to segment`);
+    return response.measurements;
+  };
+
+  const terminate = () => {
+    worker.terminate();
+    failAll(createAbortError());
+  };
+
+  return { ready, detect, segment, terminate };
+};
@@ -0,0 +1,72 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import { scaleBox } from './boxGeometry';
+import { HAND_STYLES } from './nails';
+
+// MediaPipe fingertip landmarks: thumb, index, middle, ring, pinky
+export const FINGERTIP_INDICES = [4, 8, 12, 16, 20];
+const WRIST = 0;
+const MIDDLE_MCP = 9;
+
+// Tips this close to the frame edge are probably cut off (landmarks are extrapolated there)
+const EDGE_MARGIN = 0.02;
+
+export const areFingertipsVisible = (landmarks: NormalizedLandmark[]) =>
+  FINGERTIP_INDICES.every(i => {
+    const p = landmarks[i];
+    return p && p.x >= EDGE_MARGIN && p.x <= 1 - EDGE_MARGIN && p.y >= EDGE_MARGIN && p.y <= 1 - EDGE_MARGIN;
+  });
+
+/**
+ * Mean fingertip movement between two frames, relative to the hand's size
+ * (wrist to middle knuckle), so it doesn't depend on how close the hand is.
+ */
+export const getHandMotion = (previous: NormalizedLandmark[], current: NormalizedLandmark[]) => {
+  const handSize = Math.hypot(
+    current[MIDDLE_MCP].x - current[WRIST].x,
+    current[MIDDLE_MCP].y - current[WRIST].y
+  );
+  if (handSize === 0) return Infinity;
+
+  const movement = FINGERTIP_INDICES.reduce((sum, i) =>
+    sum + Math.hypot(current[i].x - previous[i].x, current[i].y - previous[i].y), 0);
+  return movement / FINGERTIP_INDICES.length / handSize;
+};
+
+// Where the video's frame lands inside its element (object-fit cover or contain)
+export const getVideoFit = (video: HTMLVideoElement) => {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  const cover = getComputedStyle(video).objectFit === 'cover';
+  const ratio = (cover ? Math.max : Math.min)(clientWidth / videoWidth, clientHeight / videoHeight);
+  return {
+    ratio,
+    offsetX: (clientWidth - videoWidth * ratio) / 2,
+    offsetY: (clientHeight - videoHeight * ratio) / 2
+  };
+};
+
+// Draws the estimated nail boxes over the live preview (canvas sized to the video element)
+export const drawNailBoxes = (canvas: HTMLCanvasElement, video: HTMLVideoElement, measurements: NailMeasurement[]) => {
+  if (canvas.width !== video.clientWidth || canvas.height !== video.clientHeight) {
+    canvas.width = video.clientWidth;
+    canvas.height = video.clientHeight;
+  }
+  const g = canvas.getContext('2d');
+  if (!g) return;
+  g.clearRect(0, 0, canvas.width, canvas.height);
+  if (!video.videoWidth) return;
+
+  const { ratio, offsetX, offsetY } = getVideoFit(video);
+
+  g.lineWidth = 2;
+  measurements.forEach(m => {
+    // Boxes are in video pixels
+    const { x, y, width, height, rotation } = scaleBox(m.boundingBox, ratio);
+    g.save();
+    g.translate(offsetX + x, offsetY + y);
+    g.rotate(rotation);
+    g.strokeStyle = HAND_STYLES[m.hand].stroke;
+    g.strokeRect(-width / 2, -height / 2, width, height);
+    g.restore();
+  });
+};
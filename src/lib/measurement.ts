@@ -0,0 +1,50 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import { distance } from './geometry';
+import { applyHomography, type Homography } from './homography';
+
+export interface NailDimensionsMM {
+  widthMM: number;
+  lengthMM: number;
+}
+
+export interface MeasurementScale {
+  pixelsPerMM?: number;
+  // Image pixels -> mm on the reference plane (card perspective calibration)
+  homography?: Homography;
+}
+
+// Converts a nail box (image pixels) into real-world millimeters.
+// Returns null while the image is not calibrated.
+export const getNailDimensionsMM = (m: NailMeasurement, scale: MeasurementScale): NailDimensionsMM | null => {
+  const trueW = m.boundingBox.width;
+  const trueH = m.boundingBox.height;
+
+  if (scale.homography) {
+    // Measure the box's center lines after rectifying them onto the card plane,
+    // so a tilted camera doesn't shrink the far side of the hand.
+    const H = scale.homography;
+    const { x: cx, y: cy, rotation } = m.boundingBox;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const halfW = { x: (cos * trueW) / 2, y: (sin * trueW) / 2 };
+    const halfH = { x: (-sin * trueH) / 2, y: (cos * trueH) / 2 };
+
+    return {
+      widthMM: distance(
+        applyHomography(H, { x: cx - halfW.x, y: cy - halfW.y }),
+        applyHomography(H, { x: cx + halfW.x, y: cy + halfW.y })
+      ),
+      lengthMM: distance(
+        applyHomography(H, { x: cx - halfH.x, y: cy - halfH.y }),
+        applyHomography(H, { x: cx + halfH.x, y: cy + halfH.y })
+      )
+    };
+  }
+
+  if (!scale.pixelsPerMM) return null;
+
+  return {
+    widthMM: trueW / scale.pixelsPerMM,
+    lengthMM: trueH / scale.pixelsPerMM
+  };
+};
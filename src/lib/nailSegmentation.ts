@@ -0,0 +1,458 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import { scaleBox } from './boxGeometry';
+import type { Point } from './geometry';
+import { getImageData } from './imageProcessing';
+
+// Longest side of the photo copy that nails are segmented from
+const WORKING_SIZE = 1600;
+// Resolution (longest side) of the rectified patch sampled around each fingertip
+const PATCH_SIZE = 64;
+// The search region is the heuristic box grown by these factors...
+const ROI_WIDTH_FACTOR = 1.8;
+const ROI_LENGTH_FACTOR = 2.2;
+// ...and pushed towards the fingertip (fraction of box length) so extensions fit inside
+const ROI_DISTAL_SHIFT = 0.2;
+// Outermost patch pixels are assumed not to be nail (GrabCut's "outside the rectangle")
+const BORDER = 3;
+// Central part of the heuristic box used as the initial nail guess
+const SEED_FRACTION = 0.6;
+const FG_COMPONENTS = 2;
+const BG_COMPONENTS = 3;
+const EM_ROUNDS = 4;
+const ICM_SWEEPS = 3;
+// Weight of the neighbour agreement term relative to the color likelihoods
+const SMOOTHNESS = 2;
+const OUTLINE_POINTS = 48;
+// Sanity limits: anything outside these is treated as a failed segmentation
+const MIN_AREA_RATIO = 0.25;
+const MAX_AREA_RATIO = 2.5;
+const MAX_BORDER_CONTACT = 0.2;
+// Mean log-likelihood ratio (nail vs surroundings) over the mask, in nats per pixel
+const MIN_CONTRAST = 2;
+// Only follow the mask's own principal axis when it is clearly elongated and close to the finger axis
+const MIN_ELONGATION = 1.15;
+const MAX_AXIS_DEVIATION = (25 * Math.PI) / 180;
+
+interface Gaussian {
+  weight: number;
+  mean: number[];
+  variance: number[];
+}
+
+// Minimal frame for the rectified patch: patch pixel (i, j) -> working image pixel
+interface PatchFrame {
+  origin: Point;
+  u: Point;
+  v: Point;
+  pixelSize: number;
+  width: number;
+  height: number;
+}
+
+const toImage = (frame: PatchFrame, i: number, j: number): Point => {
+  const lx = (i + 0.5) * frame.pixelSize;
+  const ly = (j + 0.5) * frame.pixelSize;
+  return {
+    x: frame.origin.x + lx * frame.u.x + ly * frame.v.x,
+    y: frame.origin.y + lx * frame.u.y + ly * frame.v.y
+  };
+};
+
+// Bilinear RGB lookup (edges clamped)
+const sampleRGB = (image: ImageData, p: Point, out: Float32Array, offset: number) => {
+  const { data, width, height } = image;
+  const x = Math.min(width - 1, Math.max(0, p.x - 0.5));
+  const y = Math.min(height - 1, Math.max(0, p.y - 0.5));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  for (let c = 0; c < 3; c++) {
+    const a = data[(y0 * width + x0) * 4 + c];
+    const b = data[(y0 * width + x1) * 4 + c];
+    const d = data[(y1 * width + x0) * 4 + c];
+    const e = data[(y1 * width + x1) * 4 + c];
+    out[offset + c] = (a * (1 - fx) + b * fx) * (1 - fy) + (d * (1 - fx) + e * fx) * fy;
+  }
+};
+
+// Diagonal-covariance Gaussian mixture fitted with a few rounds of k-means
+const fitMixture = (colors: Float32Array, indices: number[], components: number): Gaussian[] => {
+  const luma = (i: number) => colors[i * 3] + colors[i * 3 + 1] + colors[i * 3 + 2];
+  const sorted = [...indices].sort((a, b) => luma(a) - luma(b));
+  // Seed the clusters at evenly spaced brightness quantiles
+  let means = Array.from({ length: components }, (_, k) => {
+    const i = sorted[Math.floor(((k + 0.5) / components) * sorted.length)];
+    return [colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]];
+  });
+  const assignment = new Int32Array(indices.length);
+
+  for (let iteration = 0; iteration < 5; iteration++) {
+    indices.forEach((i, n) => {
+      let best = 0;
+      let bestDist = Infinity;
+      means.forEach((mean, k) => {
+        const d = (colors[i * 3] - mean[0]) ** 2 + (colors[i * 3 + 1] - mean[1]) ** 2 + (colors[i * 3 + 2] - mean[2]) ** 2;
+        if (d < bestDist) { bestDist = d; best = k; }
+      });
+      assignment[n] = best;
+    });
+    means = means.map((mean, k) => {
+      const sum = [0, 0, 0];
+      let count = 0;
+      indices.forEach((i, n) => {
+        if (assignment[n] !== k) return;
+        for (let c = 0; c < 3; c++) sum[c] += colors[i * 3 + c];
+        count++;
+      });
+      return count > 0 ? sum.map(s => s / count) : mean;
+    });
+  }
+
+  return means.map((mean, k) => {
+    const variance = [0, 0, 0];
+    let count = 0;
+    indices.forEach((i, n) => {
+      if (assignment[n] !== k) return;
+      for (let c = 0; c < 3; c++) variance[c] += (colors[i * 3 + c] - mean[c]) ** 2;
+      count++;
+    });
+    return {
+      weight: count / indices.length,
+      mean,
+      // Floor keeps flat regions (e.g. a white table) from producing infinite likelihoods
+      variance: variance.map(v => Math.max(25, count > 0 ? v / count : 25))
+    };
+  }).filter(g => g.weight > 0);
+};
+
+const negativeLogLikelihood = (mixture: Gaussian[], colors: Float32Array, i: number) => {
+  let likelihood = 0;
+  for (const g of mixture) {
+    let exponent = 0;
+    let norm = g.weight;
+    for (let c = 0; c < 3; c++) {
+      exponent += (colors[i * 3 + c] - g.mean[c]) ** 2 / g.variance[c];
+      norm /= Math.sqrt(2 * Math.PI * g.variance[c]);
+    }
+    likelihood += norm * Math.exp(-exponent / 2);
+  }
+  return -Math.log(likelihood + 1e-300);
+};
+
+/**
+ * Segments one nail from the pixels around its heuristic box.
+ *
+ * GrabCut-style: a color mixture for "nail" and one for "everything else" are re-fitted
+ * a few times, with iterated conditional modes (instead of a graph cut) enforcing that
+ * neighbouring pixels of similar color share a label. The resulting mask gives the
+ * outline and a tight oriented box. Returns null when the result doesn't look like a nail.
+ */
+export const segmentNail = (image: ImageData, m: NailMeasurement): NailMeasurement | null => {
+  // The box is in pixels of `image`
+  const box = m.boundingBox;
+  const boxW = box.width;
+  const boxH = box.height;
+  if (boxW < 4 || boxH < 4) return null;
+
+  // Patch frame: u across the nail, v along the finger towards the knuckle
+  const u = { x: Math.cos(box.rotation), y: Math.sin(box.rotation) };
+  const v = { x: -Math.sin(box.rotation), y: Math.cos(box.rotation) };
+  const roiW = boxW * ROI_WIDTH_FACTOR;
+  const roiH = boxH * ROI_LENGTH_FACTOR;
+  const pixelSize = Math.max(roiW, roiH) / PATCH_SIZE;
+  const center = {
+    x: box.x - v.x * ROI_DISTAL_SHIFT * boxH,
+    y: box.y - v.y * ROI_DISTAL_SHIFT * boxH
+  };
+  const frame: PatchFrame = {
+    origin: {
+      x: center.x - (u.x * roiW) / 2 - (v.x * roiH) / 2,
+      y: center.y - (u.y * roiW) / 2 - (v.y * roiH) / 2
+    },
+    u,
+    v,
+    pixelSize,
+    width: Math.max(8, Math.round(roiW / pixelSize)),
+    height: Math.max(8, Math.round(roiH / pixelSize))
+  };
+  const pw = frame.width;
+  const ph = frame.height;
+  const count = pw * ph;
+
+  const colors = new Float32Array(count * 3);
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) sampleRGB(image, toImage(frame, i, j), colors, (j * pw + i) * 3);
+  }
+
+  // Heuristic box in patch pixels
+  const boxCX = pw / 2;
+  const boxCY = ph / 2 + (ROI_DISTAL_SHIFT * boxH) / pixelSize;
+  const boxHalfW = boxW / 2 / pixelSize;
+  const boxHalfH = boxH / 2 / pixelSize;
+
+  const isBorder = new Uint8Array(count);
+  const labels = new Uint8Array(count);
+  const seed = new Uint8Array(count);
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) {
+      const k = j * pw + i;
+      if (i < BORDER || j < BORDER || i >= pw - BORDER || j >= ph - BORDER) {
+        isBorder[k] = 1;
+        continue;
+      }
+      const dx = Math.abs(i + 0.5 - boxCX);
+      const dy = Math.abs(j + 0.5 - boxCY);
+      if (dx <= boxHalfW * SEED_FRACTION && dy <= boxHalfH * SEED_FRACTION) {
+        labels[k] = 1;
+        seed[k] = 1;
+      }
+    }
+  }
+
+  // Contrast-sensitive neighbour weights (right and down; symmetric)
+  const colorDist = (a: number, b: number) =>
+    (colors[a * 3] - colors[b * 3]) ** 2 + (colors[a * 3 + 1] - colors[b * 3 + 1]) ** 2 + (colors[a * 3 + 2] - colors[b * 3 + 2]) ** 2;
+  let meanDist = 0;
+  let pairs = 0;
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) {
+      const k = j * pw + i;
+      if (i + 1 < pw) { meanDist += colorDist(k, k + 1); pairs++; }
+      if (j + 1 < ph) { meanDist += colorDist(k, k + pw); pairs++; }
+    }
+  }
+  const beta = 1 / (2 * Math.max(1, meanDist / pairs));
+  const weightRight = new Float32Array(count);
+  const weightDown = new Float32Array(count);
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) {
+      const k = j * pw + i;
+      if (i + 1 < pw) weightRight[k] = Math.exp(-beta * colorDist(k, k + 1));
+      if (j + 1 < ph) weightDown[k] = Math.exp(-beta * colorDist(k, k + pw));
+    }
+  }
+
+  const costFg = new Float32Array(count);
+  const costBg = new Float32Array(count);
+
+  for (let round = 0; round < EM_ROUNDS; round++) {
+    const fgIndices: number[] = [];
+    const bgIndices: number[] = [];
+    // The first background model only sees the border ring, so nail pixels that the
+    // heuristic box missed aren't learned as background before they get a chance
+    labels.forEach((label, k) => {
+      if (label) fgIndices.push(k);
+      else if (round > 0 || isBorder[k]) bgIndices.push(k);
+    });
+    if (fgIndices.length < 10 || bgIndices.length < 10) return null;
+
+    const fg = fitMixture(colors, fgIndices, FG_COMPONENTS);
+    const bg = fitMixture(colors, bgIndices, BG_COMPONENTS);
+    for (let k = 0; k < count; k++) {
+      costFg[k] = negativeLogLikelihood(fg, colors, k);
+      costBg[k] = negativeLogLikelihood(bg, colors, k);
+    }
+
+    for (let sweep = 0; sweep < ICM_SWEEPS; sweep++) {
+      for (let j = 0; j < ph; j++) {
+        for (let i = 0; i < pw; i++) {
+          const k = j * pw + i;
+          if (isBorder[k]) continue;
+          // Disagreement penalties for each choice of label
+          let penaltyFg = 0;
+          let penaltyBg = 0;
+          const neighbours: [number, number][] = [
+            [k - 1, weightRight[k - 1]],
+            [k + 1, weightRight[k]],
+            [k - pw, weightDown[k - pw]],
+            [k + pw, weightDown[k]]
+          ];
+          for (const [n, w] of neighbours) {
+            if (labels[n]) penaltyBg += w;
+            else penaltyFg += w;
+          }
+          labels[k] = costFg[k] + SMOOTHNESS * penaltyFg < costBg[k] + SMOOTHNESS * penaltyBg ? 1 : 0;
+        }
+      }
+    }
+  }
+
+  // Keep the connected region that overlaps the seed most, then fill its holes
+  const component = new Int32Array(count).fill(-1);
+  let bestComponent = -1;
+  let bestOverlap = 0;
+  let componentCount = 0;
+  for (let start = 0; start < count; start++) {
+    if (!labels[start] || component[start] !== -1) continue;
+    const stack = [start];
+    component[start] = componentCount;
+    let overlap = 0;
+    while (stack.length > 0) {
+      const k = stack.pop()!;
+      overlap += seed[k];
+      const i = k % pw;
+      const neighbours = [i > 0 ? k - 1 : -1, i < pw - 1 ? k + 1 : -1, k - pw, k + pw];
+      for (const n of neighbours) {
+        if (n < 0 || n >= count || !labels[n] || component[n] !== -1) continue;
+        component[n] = componentCount;
+        stack.push(n);
+      }
+    }
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      bestComponent = componentCount;
+    }
+    componentCount++;
+  }
+  if (bestComponent === -1) return null;
+
+  const outside = new Uint8Array(count);
+  const stack: number[] = [];
+  for (let k = 0; k < count; k++) {
+    if (isBorder[k] && component[k] !== bestComponent) {
+      outside[k] = 1;
+      stack.push(k);
+    }
+  }
+  while (stack.length > 0) {
+    const k = stack.pop()!;
+    const i = k % pw;
+    const neighbours = [i > 0 ? k - 1 : -1, i < pw - 1 ? k + 1 : -1, k - pw, k + pw];
+    for (const n of neighbours) {
+      if (n < 0 || n >= count || outside[n] || component[n] === bestComponent) continue;
+      outside[n] = 1;
+      stack.push(n);
+    }
+  }
+  const mask = outside.map(o => (o ? 0 : 1));
+
+  // Reject masks that are implausibly small/large, leaked into the surroundings or barely differ from them
+  let area = 0;
+  let borderContact = 0;
+  let contrast = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) {
+      if (!mask[j * pw + i]) continue;
+      area++;
+      contrast += costBg[j * pw + i] - costFg[j * pw + i];
+      sumX += i + 0.5;
+      sumY += j + 0.5;
+      if (i === BORDER || j === BORDER || i === pw - BORDER - 1 || j === ph - BORDER - 1) borderContact++;
+    }
+  }
+  const boxArea = 4 * boxHalfW * boxHalfH;
+  const ringLength = 2 * (pw + ph - 4 * BORDER);
+  if (area < boxArea * MIN_AREA_RATIO || area > boxArea * MAX_AREA_RATIO) return null;
+  if (borderContact / ringLength > MAX_BORDER_CONTACT) return null;
+  // Nail colors indistinguishable from the surroundings: the mask is just the seed
+  if (contrast / area < MIN_CONTRAST) return null;
+
+  // Principal axis of the mask (patch coordinates: x across, y along the finger)
+  const meanX = sumX / area;
+  const meanY = sumY / area;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let j = 0; j < ph; j++) {
+    for (let i = 0; i < pw; i++) {
+      if (!mask[j * pw + i]) continue;
+      const dx = i + 0.5 - meanX;
+      const dy = j + 0.5 - meanY;
+      sxx += dx * dx;
+      syy += dy * dy;
+      sxy += dx * dy;
+    }
+  }
+  const trace = sxx + syy;
+  const det = sxx * syy - sxy * sxy;
+  const gap = Math.sqrt(Math.max(0, (trace * trace) / 4 - det));
+  const major = trace / 2 + gap;
+  const minor = Math.max(1e-6, trace / 2 - gap);
+  // Angle of the major axis measured from the finger axis (patch +y)
+  let deviation = Math.atan2(2 * sxy, sxx - syy) / 2 - Math.PI / 2;
+  if (deviation < -Math.PI / 2) deviation += Math.PI;
+  if (deviation > Math.PI / 2) deviation -= Math.PI;
+  const followMask = Math.sqrt(major / minor) >= MIN_ELONGATION && Math.abs(deviation) <= MAX_AXIS_DEVIATION;
+  const rotation = box.rotation + (followMask ? deviation : 0);
+
+  // Outline: cast rays from the centroid and keep where each one leaves the mask
+  const inMask = (x: number, y: number) => {
+    const i = Math.floor(x);
+    const j = Math.floor(y);
+    return i >= 0 && j >= 0 && i < pw && j < ph && mask[j * pw + i] === 1;
+  };
+  const radii = Array.from({ length: OUTLINE_POINTS }, (_, n) => {
+    const angle = (2 * Math.PI * n) / OUTLINE_POINTS;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    let r = 0;
+    while (inMask(meanX + dx * (r + 0.5), meanY + dy * (r + 0.5))) r += 0.5;
+    return r;
+  });
+  // Median of each ray and its neighbours removes single-ray spikes
+  const smoothed = radii.map((_, n) => {
+    const window = [-2, -1, 0, 1, 2].map(d => radii[(n + d + OUTLINE_POINTS) % OUTLINE_POINTS]).sort((a, b) => a - b);
+    return window[2];
+  });
+  const outlinePx = smoothed.map((r, n) => {
+    const angle = (2 * Math.PI * n) / OUTLINE_POINTS;
+    return toImage(frame, meanX + Math.cos(angle) * r - 0.5, meanY + Math.sin(angle) * r - 0.5);
+  });
+
+  // Tight box around the outline in the (possibly refined) nail frame
+  const axisU = { x: Math.cos(rotation), y: Math.sin(rotation) };
+  const axisV = { x: -Math.sin(rotation), y: Math.cos(rotation) };
+  const along = outlinePx.map(p => ({ a: p.x * axisU.x + p.y * axisU.y, b: p.x * axisV.x + p.y * axisV.y }));
+  const minA = Math.min(...along.map(p => p.a));
+  const maxA = Math.max(...along.map(p => p.a));
+  const minB = Math.min(...along.map(p => p.b));
+  const maxB = Math.max(...along.map(p => p.b));
+  const widthPx = maxA - minA;
+  const heightPx = maxB - minB;
+  if (widthPx < 2 || heightPx < 2) return null;
+
+  const midA = (minA + maxA) / 2;
+  const midB = (minB + maxB) / 2;
+  const boxCenter = {
+    x: midA * axisU.x + midB * axisV.x,
+    y: midA * axisU.y + midB * axisV.y
+  };
+
+  return {
+    ...m,
+    width: widthPx,
+    length: heightPx,
+    boundingBox: {
+      x: boxCenter.x,
+      y: boxCenter.y,
+      width: widthPx,
+      height: heightPx,
+      rotation
+    },
+    outline: along.map(p => ({ x: (p.a - midA) / widthPx, y: (p.b - midB) / heightPx }))
+  };
+};
+
+// Image pixels <-> pixels of the downscaled working copy
+const scaleMeasurement = (m: NailMeasurement, factor: number): NailMeasurement => ({
+  ...m,
+  width: m.width * factor,
+  length: m.length * factor,
+  phalanxLength: m.phalanxLength && m.phalanxLength * factor,
+  boundingBox: scaleBox(m.boundingBox, factor)
+});
+
+// Refines every heuristic box; nails that can't be segmented keep their heuristic box.
+// Runs in the landmarker worker (see landmarkerWorker.ts), hence the ImageBitmap.
+export const refineNailOutlines = (source: ImageBitmap, measurements: NailMeasurement[]): NailMeasurement[] => {
+  if (measurements.length === 0) return measurements;
+  const { imageData, scale } = getImageData(source, WORKING_SIZE);
+  return measurements.map(m => {
+    const segmented = segmentNail(imageData, scaleMeasurement(m, scale));
+    return segmented ? scaleMeasurement(segmented, 1 / scale) : m;
+  });
+};
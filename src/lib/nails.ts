@@ -0,0 +1,136 @@
+import type { HandSide, NailMeasurement } from '../hooks/useHandDetection';
+
+export const HAND_ORDER: HandSide[] = ['Left', 'Right'];
+export const FINGER_ORDER = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'];
+export const TOE_ORDER = ['Big toe', '2nd toe', '3rd toe', '4th toe', 'Pinky toe'];
+
+// Fingernails are detected; toenails start from a template (the hand model can't see feet)
+export type NailSet = 'hands' | 'feet';
+
+// Digits of each set in sidebar order, and what a group of them is called
+export const DIGIT_ORDER: Record<NailSet, string[]> = { hands: FINGER_ORDER, feet: TOE_ORDER };
+export const LIMB_LABELS: Record<NailSet, string> = { hands: 'Hand', feet: 'Foot' };
+
+// Nails only store the digit name; toe names tell the sets apart
+export const getNailSet = (finger: string): NailSet => (TOE_ORDER.includes(finger) ? 'feet' : 'hands');
+
+export const getDigitRank = (finger: string) => DIGIT_ORDER[getNailSet(finger)].indexOf(finger);
+
+// Tailwind classes must be static strings, so each hand gets a full set.
+// `stroke` is the raw color of the same hue, for canvas drawing
+export const HAND_STYLES: Record<HandSide, { box: string; dot: string; text: string; stroke: string }> = {
+  Left: {
+    box: 'border-green-400 bg-green-400/10 hover:bg-green-400/20',
+    dot: 'bg-green-400',
+    text: 'text-green-300',
+    stroke: '#4ade80'
+  },
+  Right: {
+    box: 'border-sky-400 bg-sky-400/10 hover:bg-sky-400/20',
+    dot: 'bg-sky-400',
+    text: 'text-sky-300',
+    stroke: '#38bdf8'
+  }
+};
+
+export interface HandGroup {
+  hand: HandSide;
+  handIndex: number;
+  label: string;
+  // Keep the original index so highlighting still maps onto `measurements`
+  nails: { measurement: NailMeasurement; index: number }[];
+}
+
+// "Left Index", "Right Thumb", ...
+export const getNailLabel = (m: NailMeasurement): string => `${m.hand} ${m.finger}`;
+
+// Groups nails per detected hand (or foot), Left before Right, digits in anatomical order.
+// If MediaPipe reports the same side twice, the second hand gets a "#2" suffix.
+export const groupByHand = (measurements: NailMeasurement[]): HandGroup[] => {
+  const byHand = new Map<number, HandGroup>();
+
+  measurements.forEach((measurement, index) => {
+    let group = byHand.get(measurement.handIndex);
+    if (!group) {
+      group = { hand: measurement.hand, handIndex: measurement.handIndex, label: '', nails: [] };
+      byHand.set(measurement.handIndex, group);
+    }
+    group.nails.push({ measurement, index });
+  });
+
+  const groups = [...byHand.values()].sort((a, b) =>
+    HAND_ORDER.indexOf(a.hand) - HAND_ORDER.indexOf(b.hand) || a.handIndex - b.handIndex
+  );
+
+  const seen: Partial<Record<HandSide, number>> = {};
+  groups.forEach(group => {
+    const count = (seen[group.hand] ?? 0) + 1;
+    seen[group.hand] = count;
+    const limb = LIMB_LABELS[getNailSet(group.nails[0].measurement.finger)];
+    group.label = count > 1 ? `${group.hand} ${limb} #${count}` : `${group.hand} ${limb}`;
+    group.nails.sort((a, b) => getDigitRank(a.measurement.finger) - getDigitRank(b.measurement.finger));
+  });
+
+  return groups;
+};
+
+// Where a nail sits in the sidebar: which detected hand and which finger
+export type NailSlot = Pick<NailMeasurement, 'hand' | 'handIndex' | 'finger'>;
+
+const getNextHandIndex = (measurements: NailMeasurement[]) =>
+  measurements.reduce((max, m) => Math.max(max, m.handIndex + 1), 0);
+
+// Label for a nail drawn by hand: the first digit missing from a detected hand,
+// else the first digit of a hand MediaPipe missed entirely
+export const getFreeNailSlot = (measurements: NailMeasurement[], nailSet: NailSet = 'hands'): NailSlot => {
+  const digits = DIGIT_ORDER[nailSet];
+  for (const group of groupByHand(measurements)) {
+    const finger = digits.find(f => !group.nails.some(n => n.measurement.finger === f));
+    if (finger) return { hand: group.hand, handIndex: group.handIndex, finger };
+  }
+  const hand = HAND_ORDER.find(h => !measurements.some(m => m.hand === h)) ?? HAND_ORDER[0];
+  return { hand, handIndex: getNextHandIndex(measurements), finger: digits[0] };
+};
+
+// Moves a whole hand (or foot) to the other side, e.g. when MediaPipe got Left/Right wrong
+export const swapHandSide = (measurements: NailMeasurement[], handIndex: number): NailMeasurement[] =>
+  measurements.map(m => (m.handIndex === handIndex
+    ? { ...m, hand: m.hand === 'Left' ? 'Right' : 'Left', handednessScore: 1 }
+    : m));
+
+// Gives one nail another hand/finger label. A nail already holding that label swaps
+// onto the old one, so every label stays unique. A label set by the user is certain.
+export const relabelNail = (
+  measurements: NailMeasurement[],
+  index: number,
+  hand: HandSide,
+  finger: string
+): NailMeasurement[] => {
+  const m = measurements[index];
+  // Join the hand of that side, or start a new one when there is none yet
+  const handIndex = hand === m.hand
+    ? m.handIndex
+    : measurements.find(other => other.hand === hand)?.handIndex ?? getNextHandIndex(measurements);
+
+  return measurements.map((other, i) => {
+    if (i === index) return { ...other, hand, finger, handIndex, handednessScore: 1 };
+    if (other.handIndex === handIndex && other.finger === finger) {
+      return { ...other, hand: m.hand, finger: m.finger, handIndex: m.handIndex };
+    }
+    return other;
+  });
+};
+
+// The same nail in another set of measurements (e.g. the detected ones). Matched by id,
+// which relabeling keeps; nails from before ids existed fall back to hand and finger.
+export const findSameNail = (measurements: NailMeasurement[], m: NailMeasurement) =>
+  m.id !== undefined
+    ? measurements.find(other => other.id === m.id)
+    : measurements.find(other => other.handIndex === m.handIndex && other.finger === m.finger);
+
+export const isSameBox = (a: NailMeasurement, b: NailMeasurement) => {
+  const boxA = a.boundingBox;
+  const boxB = b.boundingBox;
+  return boxA.x === boxB.x && boxA.y === boxB.y && boxA.width === boxB.width &&
+    boxA.height === boxB.height && boxA.rotation === boxB.rotation;
+};
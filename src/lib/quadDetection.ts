@@ -0,0 +1,178 @@
+import { distance, orderQuadCorners, type Point } from './geometry';
+import { boxBlur, loadGrayscale, percentile, sobel, type GrayImage } from './imageProcessing';
+
+export interface DetectedQuad {
+  // TL, TR, BR, BL in source image pixels
+  corners: Point[];
+  // Fraction of the quad perimeter backed by edges (0-1)
+  confidence: number;
+}
+
+interface HoughLine {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+const WORKING_SIZE = 320;
+const EDGE_PERCENTILE = 0.9;
+const THETA_BINS = 180;
+// Only vote for line orientations close to the edge's own (normal = gradient direction)
+const THETA_WINDOW = 8;
+const MAX_LINES = 16;
+// Opposite card edges stay roughly parallel even when tilted
+const MAX_PARALLEL_DEVIATION = (25 * Math.PI) / 180;
+const MIN_AREA_RATIO = 0.015;
+// Accept aspect ratios this far off the physical card (perspective squashes it)
+const ASPECT_TOLERANCE = 0.35;
+const SAMPLES_PER_SIDE = 40;
+
+const houghLines = (gray: GrayImage): { lines: HoughLine[]; isEdge: Uint8Array } => {
+  const { width, height } = gray;
+  const { gx, gy, magnitude } = sobel(gray);
+  const threshold = Math.max(20, percentile(magnitude, EDGE_PERCENTILE));
+
+  const maxRho = Math.ceil(Math.hypot(width, height));
+  const rhoBins = maxRho * 2 + 1;
+  const accumulator = new Float32Array(THETA_BINS * rhoBins);
+  const isEdge = new Uint8Array(width * height);
+  const cosTable = Array.from({ length: THETA_BINS }, (_, t) => Math.cos((t * Math.PI) / THETA_BINS));
+  const sinTable = Array.from({ length: THETA_BINS }, (_, t) => Math.sin((t * Math.PI) / THETA_BINS));
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (magnitude[i] < threshold) continue;
+      isEdge[i] = 1;
+
+      // Gradient direction folded into [0, 180)
+      let angle = Math.atan2(gy[i], gx[i]);
+      if (angle < 0) angle += Math.PI;
+      const center = Math.round((angle / Math.PI) * THETA_BINS);
+
+      for (let dt = -THETA_WINDOW; dt <= THETA_WINDOW; dt++) {
+        const t = (center + dt + THETA_BINS) % THETA_BINS;
+        const rho = Math.round(x * cosTable[t] + y * sinTable[t]);
+        accumulator[t * rhoBins + rho + maxRho] += 1;
+      }
+    }
+  }
+
+  // Peaks with non-maximum suppression in (theta, rho)
+  const peaks: HoughLine[] = [];
+  for (let t = 0; t < THETA_BINS; t++) {
+    for (let r = 0; r < rhoBins; r++) {
+      const votes = accumulator[t * rhoBins + r];
+      if (votes < 20) continue;
+      peaks.push({ theta: (t * Math.PI) / THETA_BINS, rho: r - maxRho, votes });
+    }
+  }
+  peaks.sort((a, b) => b.votes - a.votes);
+
+  const lines: HoughLine[] = [];
+  for (const peak of peaks) {
+    const isDuplicate = lines.some(line =>
+      Math.abs(line.theta - peak.theta) < (5 * Math.PI) / 180 && Math.abs(line.rho - peak.rho) < 8
+    );
+    if (!isDuplicate) lines.push(peak);
+    if (lines.length >= MAX_LINES) break;
+  }
+
+  return { lines, isEdge };
+};
+
+const intersect = (a: HoughLine, b: HoughLine): Point | null => {
+  const det = Math.cos(a.theta) * Math.sin(b.theta) - Math.sin(a.theta) * Math.cos(b.theta);
+  if (Math.abs(det) < 1e-6) return null;
+  return {
+    x: (a.rho * Math.sin(b.theta) - b.rho * Math.sin(a.theta)) / det,
+    y: (b.rho * Math.cos(a.theta) - a.rho * Math.cos(b.theta)) / det
+  };
+};
+
+// Smallest difference between two line orientations (lines repeat every 180°)
+const angleBetween = (a: number, b: number) => {
+  const d = Math.abs(a - b) % Math.PI;
+  return Math.min(d, Math.PI - d);
+};
+
+const polygonArea = (points: Point[]) =>
+  Math.abs(points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0)) / 2;
+
+/**
+ * Finds the most card-like quadrilateral: two pairs of near-parallel Hough lines whose
+ * intersections form a convex quad with the card's aspect ratio and strong edge support.
+ */
+export const findQuad = (gray: GrayImage, aspectRatio: number): DetectedQuad | null => {
+  const blurred = boxBlur(gray);
+  const { width, height, scale } = blurred;
+  const { lines, isEdge } = houghLines(blurred);
+
+  const edgeNear = (p: Point) => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const x = Math.round(p.x) + dx;
+        const y = Math.round(p.y) + dy;
+        if (x >= 0 && y >= 0 && x < width && y < height && isEdge[y * width + x]) return true;
+      }
+    }
+    return false;
+  };
+
+  const pairs: [HoughLine, HoughLine][] = [];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      if (angleBetween(lines[i].theta, lines[j].theta) < MAX_PARALLEL_DEVIATION) {
+        pairs.push([lines[i], lines[j]]);
+      }
+    }
+  }
+
+  const targetAspect = Math.max(aspectRatio, 1 / aspectRatio);
+  let best: DetectedQuad | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = i + 1; j < pairs.length; j++) {
+      const [a1, a2] = pairs[i];
+      const [b1, b2] = pairs[j];
+      // The two pairs must cross each other at a decent angle
+      if (angleBetween(a1.theta, b1.theta) < Math.PI / 4) continue;
+
+      const raw = [intersect(a1, b1), intersect(a1, b2), intersect(a2, b1), intersect(a2, b2)];
+      if (raw.some(p => !p || p.x < 0 || p.y < 0 || p.x >= width || p.y >= height)) continue;
+      const corners = orderQuadCorners(raw as Point[]);
+
+      if (polygonArea(corners) < width * height * MIN_AREA_RATIO) continue;
+
+      const [tl, tr, br, bl] = corners;
+      const sideA = (distance(tl, tr) + distance(bl, br)) / 2;
+      const sideB = (distance(tl, bl) + distance(tr, br)) / 2;
+      const aspect = Math.max(sideA, sideB) / Math.min(sideA, sideB);
+      if (Math.abs(aspect - targetAspect) / targetAspect > ASPECT_TOLERANCE) continue;
+
+      let hits = 0;
+      for (let k = 0; k < 4; k++) {
+        const p = corners[k];
+        const q = corners[(k + 1) % 4];
+        for (let s = 0; s < SAMPLES_PER_SIDE; s++) {
+          // Skip the very corners, which are often rounded on cards
+          const f = 0.1 + (0.8 * s) / (SAMPLES_PER_SIDE - 1);
+          if (edgeNear({ x: p.x + (q.x - p.x) * f, y: p.y + (q.y - p.y) * f })) hits++;
+        }
+      }
+      const confidence = hits / (4 * SAMPLES_PER_SIDE);
+
+      if (!best || confidence > best.confidence) {
+        best = { corners: corners.map(p => ({ x: p.x / scale, y: p.y / scale })), confidence };
+      }
+    }
+  }
+
+  return best;
+};
+
+export const detectCardCorners = (source: HTMLImageElement, aspectRatio: number): DetectedQuad | null =>
+  findQuad(loadGrayscale(source, WORKING_SIZE), aspectRatio);
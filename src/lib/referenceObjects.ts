@@ -0,0 +1,65 @@
+export interface CircleReference {
+  id: string;
+  name: string;
+  group: string;
+  shape: 'circle';
+  diameterMM: number;
+}
+
+export interface RectReference {
+  id: string;
+  name: string;
+  group: string;
+  shape: 'rect';
+  // Long side / short side
+  widthMM: number;
+  heightMM: number;
+}
+
+export type ReferenceObject = CircleReference | RectReference;
+
+export const CUSTOM_REFERENCE_ID = 'custom';
+
+const coin = (id: string, name: string, group: string, diameterMM: number): CircleReference =>
+  ({ id, name, group, shape: 'circle', diameterMM });
+
+// Diameters from the issuing mints
+export const REFERENCE_OBJECTS: ReferenceObject[] = [
+  coin('twd-1', '1 NTD', 'Taiwan', 20.0),
+  coin('twd-5', '5 NTD', 'Taiwan', 22.0),
+  coin('twd-10', '10 NTD', 'Taiwan', 26.0),
+  coin('twd-50', '50 NTD', 'Taiwan', 28.0),
+
+  coin('usd-dime', 'Dime (10¢)', 'United States', 17.91),
+  coin('usd-penny', 'Penny (1¢)', 'United States', 19.05),
+  coin('usd-nickel', 'Nickel (5¢)', 'United States', 21.21),
+  coin('usd-quarter', 'Quarter (25¢)', 'United States', 24.26),
+
+  coin('eur-10c', '10 Cent', 'Euro', 19.75),
+  coin('eur-20c', '20 Cent', 'Euro', 22.25),
+  coin('eur-1', '1 Euro', 'Euro', 23.25),
+  coin('eur-50c', '50 Cent', 'Euro', 24.25),
+  coin('eur-2', '2 Euro', 'Euro', 25.75),
+
+  coin('gbp-1p', '1p', 'United Kingdom', 20.3),
+  coin('gbp-1', '£1', 'United Kingdom', 23.43),
+  coin('gbp-10p', '10p', 'United Kingdom', 24.5),
+  coin('gbp-2', '£2', 'United Kingdom', 28.4),
+
+  coin('jpy-100', '100 Yen', 'Japan', 22.6),
+  coin('jpy-10', '10 Yen', 'Japan', 23.5),
+  coin('jpy-500', '500 Yen', 'Japan', 26.5),
+
+  // Credit / debit / ID cards
+  { id: 'iso-id1', name: 'ID-1 Card (credit card)', group: 'Cards', shape: 'rect', widthMM: 85.6, heightMM: 53.98 },
+];
+
+export const DEFAULT_REFERENCE_ID = 'twd-10';
+
+export const DEFAULT_CUSTOM_REFERENCE: ReferenceObject = coin(CUSTOM_REFERENCE_ID, 'Custom', 'Custom', 25);
+
+// "US Quarter (24.26 mm)" / "ID-1 Card (85.6 × 53.98 mm)"
+export const describeReferenceObject = (object: ReferenceObject) =>
+  object.shape === 'circle'
+    ? `${object.name} (${object.diameterMM} mm)`
+    : `${object.name} (${object.widthMM} × ${object.heightMM} mm)`;
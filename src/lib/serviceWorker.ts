@@ -0,0 +1,13 @@
+// Production builds only: the dev server has no sw.js and needs live reloads
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(new URL('sw.js', document.baseURI), {
+      // Always check sw.js itself for a new build, past any HTTP caching
+      updateViaCache: 'none'
+    }).catch(err => {
+      console.error("Service worker registration failed:", err);
+    });
+  });
+};
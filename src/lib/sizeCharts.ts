@@ -0,0 +1,140 @@
+export interface SizeChartEntry {
+  size: string;
+  widthMM: number;
+}
+
+export interface SizeChart {
+  id: string;
+  name: string;
+  // Sorted from widest to narrowest (size 0 first for the default chart)
+  sizes: SizeChartEntry[];
+  builtIn?: boolean;
+}
+
+export interface SizeMatch {
+  best: SizeChartEntry;
+  // Set when the nail falls between two sizes rather than on one
+  runnerUp?: SizeChartEntry;
+  // Nail is wider than the widest or narrower than the narrowest size
+  outOfRange: boolean;
+}
+
+// Common press-on numbering: 0 is the widest (thumb), 11 the narrowest.
+export const DEFAULT_SIZE_CHART: SizeChart = {
+  id: 'default',
+  name: 'Standard (0–11)',
+  builtIn: true,
+  sizes: [
+    { size: '0', widthMM: 18 },
+    { size: '1', widthMM: 17 },
+    { size: '2', widthMM: 16 },
+    { size: '3', widthMM: 15 },
+    { size: '4', widthMM: 14 },
+    { size: '5', widthMM: 13 },
+    { size: '6', widthMM: 12 },
+    { size: '7', widthMM: 11 },
+    { size: '8', widthMM: 10 },
+    { size: '9', widthMM: 9 },
+    { size: '10', widthMM: 8 },
+    { size: '11', widthMM: 7 },
+  ]
+};
+
+// Press-on toenail sets: 0 is the big toe, 9 the smallest pinky toe.
+export const TOENAIL_SIZE_CHART: SizeChart = {
+  id: 'toenails',
+  name: 'Toenails (0–9)',
+  builtIn: true,
+  sizes: [
+    { size: '0', widthMM: 20 },
+    { size: '1', widthMM: 18 },
+    { size: '2', widthMM: 16 },
+    { size: '3', widthMM: 14 },
+    { size: '4', widthMM: 12 },
+    { size: '5', widthMM: 11 },
+    { size: '6', widthMM: 10 },
+    { size: '7', widthMM: 9 },
+    { size: '8', widthMM: 8 },
+    { size: '9', widthMM: 7 },
+  ]
+};
+
+// Within this distance of a size, the nail counts as "on" it and no runner-up is shown.
+const EXACT_FIT_TOLERANCE_MM = 0.25;
+
+export const matchNailSize = (widthMM: number, chart: SizeChart): SizeMatch | null => {
+  if (chart.sizes.length === 0) return null;
+
+  const sorted = [...chart.sizes].sort((a, b) => b.widthMM - a.widthMM);
+  const widest = sorted[0];
+  const narrowest = sorted[sorted.length - 1];
+
+  if (widthMM >= widest.widthMM) {
+    return { best: widest, outOfRange: widthMM - widest.widthMM > EXACT_FIT_TOLERANCE_MM };
+  }
+  if (widthMM <= narrowest.widthMM) {
+    return { best: narrowest, outOfRange: narrowest.widthMM - widthMM > EXACT_FIT_TOLERANCE_MM };
+  }
+
+  // Find the two sizes bracketing the nail width
+  const upperIndex = sorted.findIndex(entry => entry.widthMM < widthMM) - 1;
+  const wider = sorted[upperIndex];
+  const narrower = sorted[upperIndex + 1];
+
+  const [best, other] = wider.widthMM - widthMM <= widthMM - narrower.widthMM
+    ? [wider, narrower]
+    : [narrower, wider];
+
+  return {
+    best,
+    runnerUp: Math.abs(best.widthMM - widthMM) > EXACT_FIT_TOLERANCE_MM ? other : undefined,
+    outOfRange: false
+  };
+};
+
+/**
+ * Validates a user supplied chart. Accepted shapes:
+ *   { "name": "Brand", "sizes": [{ "size": "XS", "widthMM": 16.5 }, ...] }
+ *   { "name": "Brand", "sizes": { "XS": 16.5, "S": 15 } }
+ */
+export const parseSizeChart = (data: unknown): SizeChart => {
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Size chart must be a JSON object.');
+  }
+
+  const { name, sizes } = data as { name?: unknown; sizes?: unknown };
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('Size chart needs a "name".');
+  }
+
+  let entries: SizeChartEntry[];
+  if (Array.isArray(sizes)) {
+    entries = sizes.map((entry, i) => {
+      const { size, widthMM } = (entry ?? {}) as { size?: unknown; widthMM?: unknown };
+      if ((typeof size !== 'string' && typeof size !== 'number') || typeof widthMM !== 'number') {
+        throw new Error(`Size #${i + 1} needs a "size" and a numeric "widthMM".`);
+      }
+      return { size: String(size), widthMM };
+    });
+  } else if (typeof sizes === 'object' && sizes !== null) {
+    entries = Object.entries(sizes).map(([size, widthMM]) => {
+      if (typeof widthMM !== 'number') {
+        throw new Error(`Width for size "${size}" must be a number.`);
+      }
+      return { size, widthMM };
+    });
+  } else {
+    throw new Error('Size chart needs a "sizes" list.');
+  }
+
+  if (entries.length === 0) throw new Error('Size chart has no sizes.');
+  if (entries.some(entry => !(entry.widthMM > 0 && entry.widthMM < 40))) {
+    throw new Error('Widths must be in millimeters (between 0 and 40).');
+  }
+
+  return {
+    id: `custom-${Date.now()}`,
+    name: name.trim(),
+    sizes: entries.sort((a, b) => b.widthMM - a.widthMM)
+  };
+};
@@ -0,0 +1,45 @@
+import type { HandSide, NailMeasurement } from '../hooks/useHandDetection';
+import type { ImageSize } from './boxGeometry';
+
+// Where each toenail starts on a left foot: center as fractions of the image,
+// width as a fraction of its shorter side. The big and 2nd toe reach furthest forward.
+const LEFT_FOOT_LAYOUT = [
+  { toe: 'Big toe', x: 0.64, y: 0.36, size: 0.13 },
+  { toe: '2nd toe', x: 0.5, y: 0.34, size: 0.08 },
+  { toe: '3rd toe', x: 0.41, y: 0.37, size: 0.07 },
+  { toe: '4th toe', x: 0.33, y: 0.41, size: 0.065 },
+  { toe: 'Pinky toe', x: 0.26, y: 0.46, size: 0.055 }
+];
+
+// Toenails are a little wider than long
+const TOENAIL_ASPECT = 0.9;
+
+// Five labelled toenail boxes for one foot, laid out as seen from above with the
+// toes pointing up (so the big toe is on the right of a left foot). Nothing detects
+// feet; the user drags the boxes onto the nails with the usual editing tools.
+export const createToeTemplate = (imageSize: ImageSize, side: HandSide = 'Left'): NailMeasurement[] => {
+  const unit = Math.min(imageSize.width, imageSize.height);
+
+  return LEFT_FOOT_LAYOUT.map(({ toe, x, y, size }) => {
+    const width = size * unit;
+    const length = width * TOENAIL_ASPECT;
+    return {
+      id: `0:${toe}`,
+      finger: toe,
+      hand: side,
+      // The user picks the foot, so its side is certain
+      handednessScore: 1,
+      handIndex: 0,
+      width,
+      length,
+      boundingBox: {
+        x: (side === 'Left' ? x : 1 - x) * imageSize.width,
+        y: y * imageSize.height,
+        width,
+        height: length,
+        // Toes up: the box's +y axis points back towards the cuticle
+        rotation: 0
+      }
+    };
+  });
+};
@@ -0,0 +1,91 @@
+import type { NailMeasurement } from '../hooks/useHandDetection';
+import type { ScaleEstimate } from './anthropometry';
+import type { CalibrationMethod } from './calibration';
+import type { NailDimensionsMM } from './measurement';
+import { findSameNail, isSameBox } from './nails';
+
+// All errors are relative half-widths of a 95% range (0.05 = ±5%).
+
+// Scale from a reference object fitted by hand: a few pixels on a ~25 mm object,
+// plus the object not lying exactly in the nail plane
+const REFERENCE_SCALE_ERROR = 0.03;
+// Four card corners also correct tilt
+const CARD_PERSPECTIVE_SCALE_ERROR = 0.02;
+// Old single-thumb guess, kept for analyses saved before the estimators
+const THUMB_GUESS_SCALE_ERROR = 0.25;
+
+// How well the box matches the nail edges
+const HEURISTIC_BOX_ERROR = 0.15;
+const SEGMENTED_BOX_ERROR = 0.06;
+const EDITED_BOX_ERROR = 0.04;
+
+// Badge thresholds on the combined error
+const HIGH_CONFIDENCE_MAX = 0.06;
+const MEDIUM_CONFIDENCE_MAX = 0.12;
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+export interface NailUncertainty {
+  // ± half-width of the 95% range
+  widthMM: number;
+  lengthMM: number;
+  level: ConfidenceLevel;
+}
+
+// What the uncertainty of one photo's nails depends on
+export interface UncertaintyContext {
+  calibrationMethod: CalibrationMethod | null;
+  // Range of the active scale when it is an estimate
+  scaleEstimate?: ScaleEstimate;
+  // Boxes as detected, to tell hand-fitted boxes apart
+  detectedMeasurements?: NailMeasurement[];
+}
+
+const getScaleError = ({ calibrationMethod, scaleEstimate }: UncertaintyContext) => {
+  switch (calibrationMethod) {
+    case 'reference': return REFERENCE_SCALE_ERROR;
+    case 'card-perspective': return CARD_PERSPECTIVE_SCALE_ERROR;
+    case 'world-landmarks':
+    case 'anthropometric': return scaleEstimate?.relativeError ?? THUMB_GUESS_SCALE_ERROR;
+    case 'thumb-estimate': return THUMB_GUESS_SCALE_ERROR;
+    default: return null;
+  }
+};
+
+// A box the user fitted or drew beats segmentation, which beats the landmark heuristic.
+// An unsure Left/Right call usually means a blurred or partly hidden hand.
+const getBoxError = (m: NailMeasurement, detectedMeasurements?: NailMeasurement[]) => {
+  const detected = detectedMeasurements && findSameNail(detectedMeasurements, m);
+  if (m.manual || (detected && !isSameBox(detected, m))) return EDITED_BOX_ERROR;
+  const base = m.outline ? SEGMENTED_BOX_ERROR : HEURISTIC_BOX_ERROR;
+  return base * (2 - Math.min(1, Math.max(0, m.handednessScore)));
+};
+
+export const getConfidenceLevel = (relativeError: number): ConfidenceLevel => {
+  if (relativeError <= HIGH_CONFIDENCE_MAX) return 'high';
+  if (relativeError <= MEDIUM_CONFIDENCE_MAX) return 'medium';
+  return 'low';
+};
+
+// Scale and box errors are independent, so they add in quadrature.
+// Null while the photo has no scale.
+export const getNailUncertainty = (
+  m: NailMeasurement,
+  dimensions: NailDimensionsMM,
+  ctx: UncertaintyContext
+): NailUncertainty | null => {
+  const scaleError = getScaleError(ctx);
+  if (scaleError === null) return null;
+  const relativeError = Math.hypot(scaleError, getBoxError(m, ctx.detectedMeasurements));
+  return {
+    widthMM: dimensions.widthMM * relativeError,
+    lengthMM: dimensions.lengthMM * relativeError,
+    level: getConfidenceLevel(relativeError)
+  };
+};
@@ -0,0 +1,93 @@
+import type { Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { ScaleEstimate } from './anthropometry';
+import { toImagePoint, type ImageSize } from './boxGeometry';
+import { distance } from './geometry';
+
+// Finger bones (MediaPipe landmark indices). Palm bones are left out since
+// the wrist landmark moves with how the hand is flexed.
+const FINGER_BONES: [number, number][] = [
+  [1, 2], [2, 3], [3, 4],
+  [5, 6], [6, 7], [7, 8],
+  [9, 10], [10, 11], [11, 12],
+  [13, 14], [14, 15], [15, 16],
+  [17, 18], [18, 19], [19, 20]
+];
+const FINGERTIPS = [4, 8, 12, 16, 20];
+
+// MediaPipe's metric hand is itself fitted to an average hand, so its absolute
+// size carries roughly the population's hand size spread
+const MODEL_HAND_SIZE_SPREAD = 0.08;
+
+// Bones shorter than this on screen are mostly landmark jitter
+const MIN_BONE_PX = 4;
+
+// Diagonal of the 36 × 24 mm full frame. 35 mm-equivalent focal lengths keep the
+// diagonal field of view, so they hold for any aspect ratio measured along the diagonal.
+const FULL_FRAME_DIAGONAL_MM = 43.27;
+
+const Z_95 = 1.96;
+
+export interface WorldScaleEstimate extends ScaleEstimate {
+  // 35 mm-equivalent focal length from EXIF, when it was used
+  focalLength35mm?: number;
+  // Camera-to-hand distance that focal length implies
+  distanceMM?: number;
+}
+
+// Scale from MediaPipe world landmarks (meters) against the same landmarks in the image.
+// Only the view-plane (x, y) part of each world bone is compared, so bones pointing at
+// the camera shorten in both. With a focal length hint the scale is moved from the hand's
+// center to the depth of the fingertips, where the nails are.
+export const estimateScaleFromWorldLandmarks = (
+  landmarks: NormalizedLandmark[][],
+  worldLandmarks: Landmark[][],
+  imageSize: ImageSize,
+  focalLength35mm?: number
+): WorldScaleEstimate | null => {
+  // log(pixels per mm) of every bone, weighted by its world length
+  const samples: { logScale: number; weight: number }[] = [];
+  landmarks.forEach((hand, handIndex) => {
+    const world = worldLandmarks[handIndex];
+    if (!world) return;
+    FINGER_BONES.forEach(([a, b]) => {
+      const px = distance(toImagePoint(hand[a], imageSize), toImagePoint(hand[b], imageSize));
+      const mm = Math.hypot(world[a].x - world[b].x, world[a].y - world[b].y) * 1000;
+      if (px < MIN_BONE_PX || mm < 1) return;
+      samples.push({ logScale: Math.log(px / mm), weight: mm });
+    });
+  });
+  if (samples.length < 2) return null;
+
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const mean = samples.reduce((sum, s) => sum + s.logScale * s.weight, 0) / totalWeight;
+  const spread = Math.sqrt(samples.reduce((sum, s) => sum + s.weight * (s.logScale - mean) ** 2, 0) / totalWeight);
+  const standardError = spread / Math.sqrt(samples.length);
+
+  let pixelsPerMM = Math.exp(mean);
+  let distanceMM: number | undefined;
+  if (focalLength35mm) {
+    // Pinhole camera: pixels per mm = focal length (px) / distance (mm)
+    const focalPx = (focalLength35mm / FULL_FRAME_DIAGONAL_MM) * Math.hypot(imageSize.width, imageSize.height);
+    const handDistance = focalPx / pixelsPerMM;
+    // World z is relative to the hand's center; smaller is closer to the camera
+    const tipScales = worldLandmarks.flatMap(world => FINGERTIPS
+      .map(i => handDistance + world[i].z * 1000)
+      .filter(depth => depth > 0)
+      .map(depth => focalPx / depth));
+    if (tipScales.length > 0) {
+      pixelsPerMM = tipScales.reduce((sum, s) => sum + s, 0) / tipScales.length;
+      distanceMM = handDistance;
+    }
+  }
+
+  const sigma = Math.sqrt(standardError ** 2 + MODEL_HAND_SIZE_SPREAD ** 2);
+  return {
+    pixelsPerMM,
+    low: pixelsPerMM * Math.exp(-Z_95 * sigma),
+    high: pixelsPerMM * Math.exp(Z_95 * sigma),
+    relativeError: Math.exp(Z_95 * sigma) - 1,
+    cueCount: samples.length,
+    focalLength35mm: distanceMM !== undefined ? focalLength35mm : undefined,
+    distanceMM
+  };
+};
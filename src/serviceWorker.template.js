@@ -0,0 +1,57 @@
+// Offline support: precaches the app shell, the MediaPipe WASM and the hand model.
+// This is a template: the build writes it out as sw.js with the build's file list
+// and version filled in below, so every build yields a new worker that browsers
+// install (see precacheServiceWorker in vite.config.ts).
+const PRECACHE = __PRECACHE__;
+const CACHE_PREFIX = 'nailmetrics-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE.version;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(['./', ...PRECACHE.files]);
+    await self.skipWaiting();
+  })());
+});
+
+// Drop caches of older builds once this one is in charge
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Page loads go to the network first so a deploy shows up right away;
+// the cached shell only answers while offline. The app has no server-side routes.
+const handleNavigation = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put('./', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match('./');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  // Everything else is content-hashed or pinned, so the cached copy is always right
+  event.respondWith((async () => {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    return cached ?? fetch(request);
+  })());
+});
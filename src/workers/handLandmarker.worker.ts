@@ -0,0 +1,65 @@
+import type { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createHandLandmarker } from '../lib/handLandmarker';
+import type { LandmarkerRequest, LandmarkerResponse } from '../lib/landmarkerWorker';
+import { refineNailOutlines } from '../lib/nailSegmentation';
+
+// Module workers have no importScripts(), which MediaPipe uses to load its WASM glue
+// script. A synchronous fetch + global eval does the same thing.
+(self as unknown as { importScripts: (...urls: string[]) => void }).importScripts = (...urls) => {
+  urls.forEach(url => {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    if (request.status !== 200) throw new Error(`Failed to load ${url}: ${request.status}`);
+    (0, eval)(request.responseText);
+  });
+};
+
+let landmarker: HandLandmarker | null = null;
+
+const reply = (message: LandmarkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<LandmarkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'init') {
+    try {
+      const start = performance.now();
+      const loaded = await createHandLandmarker("IMAGE", message.baseUrl, message.delegate);
+      landmarker = loaded.landmarker;
+      reply({
+        type: 'ready',
+        info: { delegate: loaded.delegate, fellBack: loaded.fellBack, loadMs: performance.now() - start }
+      });
+    } catch (err) {
+      console.error("Failed to load MediaPipe HandLandmarker in worker:", err);
+      reply({ type: 'load-error', message: String(err) });
+    }
+    return;
+  }
+
+  if (message.type === 'segment') {
+    const { id, image, measurements } = message;
+    try {
+      reply({ type: 'segmented', id, measurements: refineNailOutlines(image, measurements) });
+    } catch (err) {
+      reply({ type: 'error', id, message: String(err) });
+    } finally {
+      image.close();
+    }
+    return;
+  }
+
+  const { id, image } = message;
+  try {
+    if (!landmarker) throw new Error("Model not loaded");
+    const start = performance.now();
+    const { landmarks, worldLandmarks, handedness } = landmarker.detect(image);
+    const inferenceMs = performance.now() - start;
+    reply({ type: 'result', id, detection: { output: { landmarks, worldLandmarks, handedness }, inferenceMs } });
+  } catch (err) {
+    reply({ type: 'error', id, message: String(err) });
+  } finally {
+    image.close();
+  }
+};
@@ -1,9 +1,59 @@
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
+
+// Files in public/ that must not end up in the offline cache
+const PRECACHE_EXCLUDE = ['.nojekyll']
+
+// Source of the service worker; the build fills in its precache list
+const SERVICE_WORKER_TEMPLATE = 'src/serviceWorker.template.js'
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  )
+
+// Writes sw.js with every bundle file plus the public assets (MediaPipe WASM, hand
+// model) embedded. Bundle names carry content hashes; public files are hashed here,
+// so the version, and with it sw.js, changes whenever anything cached would. A new
+// sw.js is what makes browsers install the new worker and drop the old cache.
+const precacheServiceWorker = (): Plugin => {
+  let root = ''
+  let publicDir = ''
+  return {
+    name: 'nailmetrics-precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const publicFiles = (publicDir ? listFiles(publicDir) : []).flatMap(file => {
+        const name = relative(publicDir, file).split('\\').join('/')
+        if (PRECACHE_EXCLUDE.includes(name)) return []
+        hash.update(readFileSync(file))
+        return [name]
+      })
+      const files = [...Object.keys(bundle).filter(file => !file.endsWith('.map')), ...publicFiles].sort()
+      const version = hash.update(files.join('\n')).digest('hex').slice(0, 12)
+      const template = readFileSync(join(root, SERVICE_WORKER_TEMPLATE), 'utf8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template.replace('__PRECACHE__', JSON.stringify({ version, files })),
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheServiceWorker()],
   base: './', // Use relative paths (safer for any folder depth)
+  // Same module worker in dev and build (the landmarker worker uses imports)
+  worker: { format: 'es' },
 })